@@ -1,21 +1,81 @@
-import React, { useState, useEffect } from 'react';
-import { AppEvent, AddressLibraryItem, TimeFormatItem, ViewState, SelectionState } from './types.ts';
+import React, { useState, useEffect, useRef, useCallback, useMemo, useDeferredValue } from 'react';
+import { AppEvent, AddressLibraryItem, TimeFormatItem, ViewState, SelectionState, ImportSheet, SheetLayout, MergeResult, ImportRowReport, CustomFieldDef, CustomFieldType, TaskProgress, TimeValidation, PlanSettings, IssueType, DuplicateMergeValues, FieldRule, Severity } from './types.ts';
 import { EventList } from './components/EventList.tsx';
 import { AddressLibrary } from './components/AddressLibrary.tsx';
 import { TimeFormatLibrary } from './components/TimeFormatLibrary.tsx';
+import { FieldRulesLibrary } from './components/FieldRulesLibrary.tsx';
 import { ImportPanel } from './components/ImportPanel.tsx';
 import { IssueSidebar } from './components/IssueSidebar.tsx';
-import { validateTimeFormat, INITIAL_TIME_FORMATS } from './constants.ts';
-import { LayoutDashboard, Clock, ChevronDown, ChevronUp, Download } from 'lucide-react';
+import { ColumnMappingDialog } from './components/ColumnMappingDialog.tsx';
+import { ImportMergeDialog } from './components/ImportMergeDialog.tsx';
+import { ImportReportDialog } from './components/ImportReportDialog.tsx';
+import { DuplicateMergeDialog } from './components/DuplicateMergeDialog.tsx';
+import { TaskProgressBar } from './components/TaskProgressBar.tsx';
+import { validateTimeFormat, validateLocation, INITIAL_TIME_FORMATS, INITIAL_REMARK_KEYWORDS } from './constants.ts';
+import { compareParsedTime, getDefaultPlanSettings } from './timeParser.ts';
+import { detectLayout, getHeaderSignature, loadSavedMapping, saveMapping, buildRowReports, inferCustomFieldType, getSourceFile } from './importUtils.ts';
+import { BackgroundTask, validateTimesInBackground } from './backgroundTasks.ts';
+import { getDistinctTimes, getTimesAffectedByFormats, getTimesWithRemarks, applyTimeValidations, applyLocationValidation, applyFieldRules, toTimeFields } from './incrementalValidation.ts';
+import { findVenueConflicts } from './conflictDetection.ts';
+import { findDuplicateGroups, getDuplicatePairKeys } from './duplicateDetection.ts';
+import { INITIAL_FIELD_RULES, validateFieldRules, getCustomFieldTypeRules } from './fieldRules.ts';
+import { LayoutDashboard, Clock, ListChecks, ChevronDown, ChevronUp, Download, FileText, RefreshCw } from 'lucide-react';
 import * as XLSX from 'xlsx';
 
+// Checks comparing events with each other; a duplicate entered twice is not a double booking
+const findCrossEventIssues = (events: AppEvent[], plan: PlanSettings, locations: AddressLibraryItem[]) => {
+  const duplicateGroups = findDuplicateGroups(events, plan);
+  const duplicateGroupOf = new Map<string, string>(duplicateGroups.flatMap(g => g.ids.map(id => [id, g.key] as [string, string])));
+  const venueConflicts = findVenueConflicts(events, plan, locations)
+    .filter(c => !duplicateGroupOf.has(c.firstId) || duplicateGroupOf.get(c.firstId) !== duplicateGroupOf.get(c.secondId));
+  return { duplicateGroups, venueConflicts };
+};
+
 const App: React.FC = () => {
   const [view, setView] = useState<ViewState>('list');
   const [events, setEvents] = useState<AppEvent[]>([]);
   const [locations, setLocations] = useState<AddressLibraryItem[]>([]);
   const [timeFormats, setTimeFormats] = useState<TimeFormatItem[]>(INITIAL_TIME_FORMATS);
+  const [fieldRules, setFieldRules] = useState<FieldRule[]>(INITIAL_FIELD_RULES);
+  // Plan year / period used to place year-less dates
+  const [planSettings, setPlanSettings] = useState<PlanSettings>(getDefaultPlanSettings);
+  // Words in time remarks that flag the time as not final, e.g. 暂定
+  const [remarkKeywords, setRemarkKeywords] = useState<string[]>(INITIAL_REMARK_KEYWORDS);
+  // Extra columns kept from imported files, in column order
+  const [customFields, setCustomFields] = useState<CustomFieldDef[]>([]);
+  // Field rules plus the type checks of typed custom columns
+  const activeFieldRules = useMemo(() => [...fieldRules, ...getCustomFieldTypeRules(customFields)], [fieldRules, customFields]);
   const [isImportPanelOpen, setIsImportPanelOpen] = useState(true);
+  // Sheets waiting for the user to confirm their column mapping
+  const [pendingImport, setPendingImport] = useState<{ sheets: ImportSheet[], layouts: SheetLayout[] } | null>(null);
+  // Row-by-row outcome of an import, waiting for the user to review skipped rows
+  const [pendingReport, setPendingReport] = useState<ImportRowReport[] | null>(null);
+  // Imported events waiting to be merged into a non-empty list
+  const [pendingMerge, setPendingMerge] = useState<{ events: AppEvent[], fields: CustomFieldDef[] } | null>(null);
+  // Keys of ignored venue conflicts. Kept per conflict, not per event, so ignoring one conflict
+  // leaves the other conflicts of the same events pending
+  const [ignoredConflictKeys, setIgnoredConflictKeys] = useState<string[]>([]);
+  // Ignored pairs of suspected duplicates (see getDuplicatePairKeys), so an event ignored in one
+  // group is still reported when it turns up with another event
+  const [ignoredDuplicatePairs, setIgnoredDuplicatePairs] = useState<string[]>([]);
+  // Ids of a duplicate group being merged into its first event
+  const [mergingDuplicates, setMergingDuplicates] = useState<string[] | null>(null);
   
+  // Source file whose events and issues are shown; empty shows all files
+  const [sourceFilter, setSourceFilter] = useState('');
+  // Bulk validation running in the background worker
+  const [validationTask, setValidationTask] = useState<{ label: string, progress: TaskProgress, task: BackgroundTask<TimeValidation[]> } | null>(null);
+  // Set when a re-validation was cancelled, so results may not match the current libraries
+  const [isValidationStale, setIsValidationStale] = useState(false);
+  const runningRevalidation = useRef<BackgroundTask<TimeValidation[]> | null>(null);
+  // Times still waiting for a re-validation that was superseded before it finished
+  const pendingTimes = useRef(new Set<string>());
+  // Library state the current time results were checked against
+  const validatedFormats = useRef(timeFormats);
+  const validatedPlan = useRef(planSettings);
+  const validatedKeywords = useRef(remarkKeywords);
+  const eventsRef = useRef(events);
+  eventsRef.current = events;
   // Track selection with source context to avoid scroll loops
   const [selection, setSelection] = useState<SelectionState | null>(null);
 
@@ -38,10 +98,13 @@ const App: React.FC = () => {
         "南宁市各中小学",
         "文化宫职工广场"
       ];
+      // Online channels and umbrella places are not booked
+      const sharedData = ["线上征集", "南宁市工人文化宫微信公众号", "各基层工会", "南宁市各中小学"];
       
       setLocations(initialData.map(name => ({
         id: Math.random().toString(36).substr(2, 9),
-        name
+        name,
+        ...(sharedData.includes(name) ? { shared: true } : {})
       })));
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -50,39 +113,101 @@ const App: React.FC = () => {
   // Validation Helper
   const validateEvent = (event: Omit<AppEvent, 'id' | 'isLocationValid' | 'isTimeValid' | 'ignoredErrors'> & { id?: string, ignoredErrors?: any[] }): AppEvent => {
     // Pass the current timeFormats state to the validation function
-    const timeValidation = validateTimeFormat(event.time, timeFormats);
-    // Exact match check for location
-    const isLocationValid = locations.some(loc => loc.name === event.location.trim());
+    const timeValidation = validateTimeFormat(event.time, timeFormats, planSettings, remarkKeywords);
+    // Exact match check for location; loose matches are warnings
+    const locationValidation = validateLocation(event.location, locations);
     
     return {
       ...event,
       id: event.id || Math.random().toString(36).substr(2, 9),
-      isTimeValid: timeValidation.isValid,
-      validationMessage: timeValidation.message,
-      isLocationValid,
+      ...toTimeFields(timeValidation),
+      isLocationValid: locationValidation.isValid,
+      locationSeverity: locationValidation.severity,
+      ruleViolations: validateFieldRules(event as AppEvent, activeFieldRules),
       ignoredErrors: event.ignoredErrors || []
     };
   };
 
-  // Re-validate all events when location library OR time formats change
+  // Validate many time texts in the worker while showing progress; resolves null when cancelled
+  const validateInBackground = async (times: string[], label: string, onStart?: (task: BackgroundTask<TimeValidation[]>) => void): Promise<Map<string, TimeValidation> | null> => {
+    const task = validateTimesInBackground(
+      times,
+      timeFormats,
+      planSettings,
+      remarkKeywords,
+      progress => setValidationTask(prev => prev?.task === task ? { ...prev, progress } : prev)
+    );
+    onStart?.(task);
+    setValidationTask({ label, progress: { done: 0, total: times.length }, task });
+    try {
+      const results = await task.promise;
+      return results && new Map(times.map((time, i) => [time, results[i]]));
+    } catch (error) {
+      // Fall back to validating here if the worker cannot run
+      console.error('Background validation failed', error);
+      return new Map(times.map(time => [time, validateTimeFormat(time, timeFormats, planSettings, remarkKeywords)]));
+    } finally {
+      setValidationTask(prev => prev?.task === task ? null : prev);
+    }
+  };
+
+  // Results are keyed by time text, so events edited meanwhile (already validated by
+  // handleUpdateEvent) only pick up a result when they still carry a checked text
+  const revalidateTimes = async (times: string[]) => {
+    // A newer library state makes the running re-validation outdated, but its times still need checking
+    runningRevalidation.current?.cancel();
+    runningRevalidation.current = null;
+    const targets = Array.from(new Set([...pendingTimes.current, ...times]));
+    pendingTimes.current = new Set(targets);
+    if (targets.length === 0) return;
+    let task: BackgroundTask<TimeValidation[]> | null = null;
+    const results = await validateInBackground(targets, `正在重新校验 ${targets.length} 种时间写法`, t => {
+      task = t;
+      runningRevalidation.current = t;
+    });
+    // A superseded run leaves the results to the run that replaced it
+    if (runningRevalidation.current !== task) return;
+    runningRevalidation.current = null;
+    if (!results) {
+      setIsValidationStale(true);
+      return;
+    }
+    pendingTimes.current = new Set();
+    setIsValidationStale(false);
+    setEvents(prev => applyTimeValidations(prev, results));
+  };
+
+  const revalidateAll = () => revalidateTimes(getDistinctTimes(eventsRef.current));
+
+  // Location checks are cheap, so a library change re-checks every distinct location right away
   useEffect(() => {
-    setEvents(prevEvents => prevEvents.map(evt => {
-       const isLocationValid = locations.some(loc => loc.name === evt.location.trim());
-       const timeValidation = validateTimeFormat(evt.time, timeFormats);
-       return { 
-           ...evt, 
-           isLocationValid, 
-           isTimeValid: timeValidation.isValid,
-           validationMessage: timeValidation.message 
-       };
-    }));
-  }, [locations, timeFormats]);
+    setEvents(prev => applyLocationValidation(prev, locations));
+  }, [locations]);
+
+  // Re-validate times when time formats, plan settings OR remark keywords change. A format change
+  // only touches the times the added or removed patterns match, a keyword change the times with
+  // remarks; the plan affects every time.
+  useEffect(() => {
+    const times = validatedPlan.current !== planSettings
+      ? getDistinctTimes(eventsRef.current)
+      : [
+          ...getTimesAffectedByFormats(eventsRef.current, validatedFormats.current, timeFormats),
+          ...(validatedKeywords.current !== remarkKeywords ? getTimesWithRemarks(eventsRef.current) : [])
+        ];
+    validatedFormats.current = timeFormats;
+    validatedPlan.current = planSettings;
+    validatedKeywords.current = remarkKeywords;
+    revalidateTimes(times);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [timeFormats, planSettings, remarkKeywords]);
+
 
-  const addTimeFormat = (name: string, pattern: string) => {
+  const addTimeFormat = (name: string, pattern: string, severity?: Severity) => {
     setTimeFormats(prev => [...prev, {
       id: Math.random().toString(36).substr(2, 9),
       name,
-      pattern
+      pattern,
+      ...(severity ? { severity } : {})
     }]);
   };
 
@@ -90,21 +215,62 @@ const App: React.FC = () => {
     setTimeFormats(prev => prev.filter(t => t.id !== id));
   };
 
+  const addFieldRule = (rule: Omit<FieldRule, 'id'>) => {
+    setFieldRules(prev => [...prev, { ...rule, id: Math.random().toString(36).substr(2, 9) }]);
+  };
+
+  const removeFieldRule = (id: string) => {
+    setFieldRules(prev => prev.filter(r => r.id !== id));
+    // Drop ignore decisions of the removed rule so a rule re-added later starts clean
+    setEvents(prev => prev.map(evt => evt.ignoredErrors?.includes(`rule:${id}`)
+      ? { ...evt, ignoredErrors: evt.ignoredErrors.filter(t => t !== `rule:${id}`) }
+      : evt));
+  };
+
+  // Field rules are cheap to check, so they run here rather than in the worker
+  useEffect(() => {
+    setEvents(prev => applyFieldRules(prev, activeFieldRules));
+  }, [activeFieldRules]);
+
   // --- Handlers ---
-  const handleUpdateEvent = (id: string, field: keyof AppEvent, value: string) => {
+  // Stable across renders (while the libraries stay the same) so unchanged rows can skip re-rendering
+  const handleUpdateEvent = useCallback((id: string, field: keyof AppEvent, value: string) => {
      setEvents(prev => prev.map(evt => {
         if (evt.id !== id) return evt;
         const updated = { ...evt, [field]: value };
         // If field affects validation, re-validate
         if (field === 'time') {
-            const result = validateTimeFormat(value, timeFormats);
-            updated.isTimeValid = result.isValid;
-            updated.validationMessage = result.message;
+            Object.assign(updated, toTimeFields(validateTimeFormat(value, timeFormats, planSettings, remarkKeywords)));
+        }
+        if (field === 'location') {
+            const result = validateLocation(value, locations);
+            updated.isLocationValid = result.isValid;
+            updated.locationSeverity = result.severity;
         }
-        if (field === 'location') updated.isLocationValid = locations.some(l => l.name === value.trim());
+        updated.ruleViolations = validateFieldRules(updated, activeFieldRules);
         
         return updated;
      }));
+  }, [timeFormats, planSettings, remarkKeywords, locations, activeFieldRules]);
+
+  const handleUpdateCustomField = useCallback((id: string, key: string, value: string) => {
+     setEvents(prev => prev.map(evt => {
+        if (evt.id !== id) return evt;
+        const updated = { ...evt, customFields: { ...evt.customFields, [key]: value } };
+        return { ...updated, ruleViolations: validateFieldRules(updated, activeFieldRules) };
+     }));
+  }, [activeFieldRules]);
+
+  const handleDeleteEvent = useCallback((id: string) => {
+     setEvents(prev => prev.filter(e => e.id !== id));
+  }, []);
+
+  const handleSelectRow = useCallback((id: string, source: SelectionState['source'], field?: SelectionState['field']) => {
+     setSelection({ id, source, field });
+  }, []);
+
+  const changeCustomFieldType = (key: string, type: CustomFieldType) => {
+     setCustomFields(prev => prev.map(def => def.key === key ? { ...def, type } : def));
   };
 
   const updateEventTime = (id: string, newTime: string) => {
@@ -115,6 +281,18 @@ const App: React.FC = () => {
      handleUpdateEvent(id, 'location', newLocation);
   };
 
+  // Keep the first event of the group with the chosen values and drop the others
+  const handleConfirmDuplicateMerge = (values: DuplicateMergeValues) => {
+    if (!mergingDuplicates) return;
+    const [keptId, ...removedIds] = mergingDuplicates;
+    setEvents(prev => prev
+      .filter(evt => !removedIds.includes(evt.id))
+      .map(evt => evt.id === keptId
+        ? validateEvent({ ...evt, ...values, customFields: { ...evt.customFields, ...values.customFields } })
+        : evt));
+    setMergingDuplicates(null);
+  };
+
   const fixSerialNumbers = () => {
     setEvents(prev => prev.map((evt, index) => ({
       ...evt,
@@ -122,7 +300,12 @@ const App: React.FC = () => {
     })));
   };
 
-  const handleIgnoreError = (id: string, type: 'serial' | 'time' | 'location') => {
+  // Chronological order from the parsed times; serials are left for the serial check to flag
+  const sortEventsByTime = () => {
+    setEvents(prev => [...prev].sort((a, b) => compareParsedTime(a.parsedTime, b.parsedTime, planSettings)));
+  };
+
+  const handleIgnoreError = (id: string, type: IssueType) => {
       setEvents(prev => prev.map(evt => {
           if (evt.id !== id) return evt;
           const currentIgnored = evt.ignoredErrors || [];
@@ -131,7 +314,7 @@ const App: React.FC = () => {
       }));
   };
 
-  const handleRestoreError = (id: string, type: 'serial' | 'time' | 'location') => {
+  const handleRestoreError = (id: string, type: IssueType) => {
       setEvents(prev => prev.map(evt => {
           if (evt.id !== id) return evt;
           const currentIgnored = evt.ignoredErrors || [];
@@ -139,6 +322,23 @@ const App: React.FC = () => {
       }));
   };
 
+  const handleIgnoreConflict = (key: string) => {
+      setIgnoredConflictKeys(prev => prev.includes(key) ? prev : [...prev, key]);
+  };
+
+  const handleRestoreConflict = (key: string) => {
+      setIgnoredConflictKeys(prev => prev.filter(k => k !== key));
+  };
+
+  const handleIgnoreDuplicates = (ids: string[]) => {
+      setIgnoredDuplicatePairs(prev => Array.from(new Set([...prev, ...getDuplicatePairKeys(ids)])));
+  };
+
+  const handleRestoreDuplicates = (ids: string[]) => {
+      const restored = new Set(getDuplicatePairKeys(ids));
+      setIgnoredDuplicatePairs(prev => prev.filter(k => !restored.has(k)));
+  };
+
   const addLocation = (name: string) => {
     if (locations.some(l => l.name === name)) return;
     setLocations(prev => [...prev, { id: Math.random().toString(36).substr(2, 9), name }]);
@@ -148,123 +348,186 @@ const App: React.FC = () => {
     setLocations(prev => prev.filter(l => l.id !== id));
   };
 
-  const handleExcelImport = (rawData: any[]) => {
-    // Check if data exists and confirm replacement
-    if (events.length > 0) {
-        const confirmed = window.confirm("当前页面存在已有数据，继续导入将删除已有数据按最新的文件内容重新导入");
-        if (!confirmed) {
-            return;
-        }
+  const toggleLocationShared = (id: string) => {
+    setLocations(prev => prev.map(l => l.id === id ? { ...l, shared: !l.shared } : l));
+  };
+
+  const handleExcelImport = (sheets: ImportSheet[]) => {
+    const layouts = sheets.map(sheet => {
+      const detected = detectLayout(sheet.rows);
+      const saved = loadSavedMapping(getHeaderSignature(sheet.rows, detected));
+      return { layout: saved ? { ...detected, colMap: saved } : detected, isSaved: !!saved };
+    });
+
+    // Layouts seen before import straight away; anything new goes through the mapping step
+    if (layouts.every(l => l.isSaved)) {
+      commitImport(sheets, layouts.map(l => l.layout));
+    } else {
+      setPendingImport({ sheets, layouts: layouts.map(l => l.layout) });
     }
+  };
 
-    const importedEvents: AppEvent[] = [];
-    
-    let bestHeaderRowIndex = -1;
-    let maxScore = 0;
-    for (let i = 0; i < Math.min(rawData.length, 20); i++) {
-      const row = rawData[i];
-      if (!Array.isArray(row)) continue;
-      let score = 0;
-      const rowStr = row.map(c => String(c).trim().replace(/\s+/g, ''));
-      if (rowStr.some(s => s.includes('序号'))) score += 10;
-      if (rowStr.some(s => (s.includes('名称') || s.includes('活动') || s.includes('内容')) && !s.includes('时间') && !s.includes('地点'))) score += 10;
-      if (rowStr.some(s => s.includes('时间') || s.includes('日期'))) score += 10;
-      if (rowStr.some(s => s.includes('地点') || s.includes('地址') || s.includes('场馆'))) score += 10;
-      if (score > maxScore) { maxScore = score; bestHeaderRowIndex = i; }
+  const handleConfirmMapping = (layouts: SheetLayout[], remember: boolean) => {
+    if (!pendingImport) return;
+    if (remember) {
+      pendingImport.sheets.forEach((sheet, i) => saveMapping(getHeaderSignature(sheet.rows, layouts[i]), layouts[i].colMap));
     }
+    setPendingImport(null);
+    commitImport(pendingImport.sheets, layouts);
+  };
 
-    let colMap = { serial: -1, name: -1, time: -1, location: -1 };
-    if (bestHeaderRowIndex !== -1) {
-       const row = rawData[bestHeaderRowIndex];
-       const rowStr = row.map((c: any) => String(c).trim().replace(/\s+/g, ''));
-       rowStr.forEach((cell: string, idx: number) => {
-          if (/序号/.test(cell)) colMap.serial = idx;
-          if (/名称|活动|内容|项目/.test(cell) && !/时间|日期|地点|地址|场馆/.test(cell)) colMap.name = idx;
-          if (/时间|日期/.test(cell)) colMap.time = idx;
-          if (/地点|地址|场馆/.test(cell)) colMap.location = idx;
-       });
-       if (colMap.name !== -1) {
-          if (colMap.time === -1) colMap.time = colMap.name + 1;
-          if (colMap.location === -1) colMap.location = colMap.name + 2;
-       } else if (colMap.serial !== -1) {
-           colMap.name = colMap.serial + 1;
-           colMap.time = colMap.serial + 2;
-           colMap.location = colMap.serial + 3;
-       }
-    } else {
-       let looksLikeSerial = false;
-       if (rawData.length > 1) {
-          const firstCell = rawData[0][0];
-          if (!isNaN(Number(firstCell))) looksLikeSerial = true;
-       }
-       if (looksLikeSerial) colMap = { serial: 0, name: 1, time: 2, location: 3 };
-       else colMap = { serial: -1, name: 0, time: 1, location: 2 };
+  const commitImport = (sheets: ImportSheet[], layouts: SheetLayout[]) => {
+    // Each sheet is read with its own layout, as departments may use different templates
+    const reports = sheets.flatMap((sheet, i) => buildRowReports(sheet, layouts[i]));
+
+    if (!reports.some(r => r.skipReason !== 'empty')) {
+      alert('未识别到有效数据。请确保Excel格式正确。');
+      return;
     }
+    setPendingReport(reports);
+  };
+
+  const handleConfirmReport = (forcedKeys: string[]) => {
+    if (!pendingReport) return;
+    setPendingReport(null);
 
-    const startRow = bestHeaderRowIndex === -1 ? 0 : bestHeaderRowIndex + 1;
-    for (let i = startRow; i < rawData.length; i++) {
-        const row = rawData[i];
-        if (!Array.isArray(row)) continue;
-        const getVal = (idx: number) => idx >= 0 && idx < row.length ? String(row[idx] || '').trim() : '';
-        const getTime = (idx: number) => {
-            if (idx < 0 || idx >= row.length) return '';
-            let val = row[idx];
-            if (typeof val === 'number' && val > 30000) {
-                 const dateObj = new Date((val - 25569) * 86400 * 1000);
-                 if (!isNaN(dateObj.getTime())) {
-                    val = `${dateObj.getUTCMonth() + 1}月${dateObj.getUTCDate()}日`;
-                 }
-            }
-            return String(val || '').trim();
+    const importedEvents: AppEvent[] = [];
+    const includedRows = pendingReport.filter(r => !r.skipReason || forcedKeys.includes(r.key));
+    includedRows.forEach(r => {
+        // Serials are generated per import; merge mode decides how they relate to the current list
+        const values = { ...r.values, serialNo: r.values.serialNo || String(importedEvents.length + 1), customFields: r.extras };
+        // Validity is filled in by the background validation once the import is settled
+        const evt: AppEvent = {
+          ...values,
+          id: Math.random().toString(36).substr(2, 9),
+          isTimeValid: true,
+          isLocationValid: true,
+          ignoredErrors: [],
+          source: { file: r.file, sheet: r.sheet, row: r.row },
+          importedValues: values
         };
+        importedEvents.push(evt);
+      });
 
-        const serialNo = getVal(colMap.serial);
-        const name = getVal(colMap.name);
-        const time = getTime(colMap.time);
-        const location = getVal(colMap.location);
-
-        if (name) {
-            // Use importedEvents.length for serial generation because we are replacing the old list
-            importedEvents.push(validateEvent({ 
-              serialNo: serialNo || String(importedEvents.length + 1), 
-              name, 
-              time, 
-              location 
-            }));
-        }
-    }
+    // Extra columns not seen before; known ones keep the type the user may have chosen.
+    // They are registered once the import is applied, so a cancelled import leaves none behind.
+    const newFields = Array.from(new Set<string>(includedRows.flatMap(r => Object.keys(r.extras))))
+      .filter(key => !customFields.some(def => def.key === key))
+      .map(key => ({ key, type: inferCustomFieldType(key, includedRows.map(r => r.extras[key] || '')) }));
 
-    if (importedEvents.length > 0) {
-      setEvents(importedEvents); // Replace logic
-      alert(`成功导入 ${importedEvents.length} 条数据`);
+    if (events.length > 0) {
+      // Existing data: let the user choose how to reconcile before anything is replaced
+      setPendingMerge({ events: importedEvents, fields: newFields });
     } else {
-      alert('未识别到有效数据。请确保Excel格式正确。');
+      applyImport(importedEvents, newFields);
+    }
+  };
+
+  const handleConfirmMerge = async (result: MergeResult) => {
+    if (!pendingMerge) return;
+    setPendingMerge(null);
+    // Ignored conflicts and duplicates of events moved to another time or place are checked afresh
+    const byId = new Map<string, AppEvent>(events.map(e => [e.id, e]));
+    const moved = new Set(result.updated
+      .filter(evt => byId.get(evt.id)?.time !== evt.time || byId.get(evt.id)?.location !== evt.location)
+      .map(evt => evt.id));
+    // Kept events were validated against an older library state, so check everything again
+    const applied = await applyImport(result.events, pendingMerge.fields);
+    if (!applied || moved.size === 0) return;
+    const unmoved = (key: string) => !key.split('|').some(id => moved.has(id));
+    setIgnoredConflictKeys(prev => prev.filter(unmoved));
+    setIgnoredDuplicatePairs(prev => prev.filter(unmoved));
+  };
+
+  // Cancelling the validation cancels the import; the current list and columns stay as they were.
+  // Field rules include the type checks of the columns this import adds.
+  const applyImport = async (list: AppEvent[], newFields: CustomFieldDef[]) => {
+    const results = await validateInBackground(getDistinctTimes(list), `正在校验导入的 ${list.length} 条活动`);
+    if (!results) return false;
+    const rules = [...fieldRules, ...getCustomFieldTypeRules([...customFields, ...newFields])];
+    if (newFields.length > 0) {
+      setCustomFields(prev => [...prev, ...newFields.filter(def => !prev.some(known => known.key === def.key))]);
     }
+    setEvents(applyFieldRules(applyLocationValidation(applyTimeValidations(list, results), locations), rules));
+    return true;
   };
 
+  // Only show custom columns that some current event actually carries. Keyed on their names, so
+  // edits that do not add or drop a column keep the same array and unchanged rows skip re-rendering
+  const carriedFieldKeys = useMemo(() => Array.from(new Set(events.flatMap(e => Object.keys(e.customFields || {})))).sort().join('\u0000'), [events]);
+  const activeCustomFields = useMemo(() => {
+    const carried = new Set(carriedFieldKeys.split('\u0000'));
+    return customFields.filter(def => carried.has(def.key));
+  }, [customFields, carriedFieldKeys]);
+
   const exportExcel = () => {
     if (events.length === 0) {
         alert('没有数据可导出');
         return;
     }
-    const ws = XLSX.utils.json_to_sheet(events.map(e => ({
-      '序号': e.serialNo,
-      '活动名称': e.name,
-      '时间': e.time,
-      '地点': e.location
-    })));
+    // Only errors block export; warnings and hints are left to the user's judgement
+    const blockingCount = countBlockingErrors();
+    if (blockingCount > 0) {
+        alert(`还有 ${blockingCount} 个错误未处理，请修正或忽略后再导出。警告和提示不影响导出。`);
+        return;
+    }
+    const ws = XLSX.utils.json_to_sheet(events.map(e => {
+      const row: Record<string, string> = {
+        '序号': e.serialNo,
+        '活动名称': e.name,
+        '时间': e.time,
+        '地点': e.location
+      };
+      activeCustomFields.forEach(def => { row[def.key] = e.customFields?.[def.key] || ''; });
+      return row;
+    }));
     const wb = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(wb, ws, "活动列表");
     XLSX.writeFile(wb, "校验后活动数据.xlsx");
   };
 
+  // Files the current events were imported from; the filter resets when its file is gone
+  const sourceFiles = Array.from(new Set<string>(events.map(getSourceFile).filter(Boolean)));
+  const activeSourceFilter = sourceFiles.includes(sourceFilter) ? sourceFilter : '';
+
+  // Cross-event checks only rerun when the list or the libraries change, not on selection or
+  // dialogs. They run on a deferred copy of the list, so a keystroke renders first and the checks
+  // catch up afterwards; results for events deleted meanwhile are dropped.
+  const checkedEvents = useDeferredValue(events);
+  const crossEventIssues = useMemo(() => findCrossEventIssues(checkedEvents, planSettings, locations), [checkedEvents, planSettings, locations]);
+  const { duplicateGroups, venueConflicts } = useMemo(() => {
+    if (checkedEvents === events) return crossEventIssues;
+    const ids = new Set(events.map(e => e.id));
+    return {
+      duplicateGroups: crossEventIssues.duplicateGroups.filter(g => g.ids.every(id => ids.has(id))),
+      venueConflicts: crossEventIssues.venueConflicts.filter(c => ids.has(c.firstId) && ids.has(c.secondId))
+    };
+  }, [crossEventIssues, checkedEvents, events]);
+  const mergingEvents = (mergingDuplicates || []).map(id => events.find(e => e.id === id)).filter(Boolean);
+
+  // Pending (not ignored) issues of error severity
+  const countBlockingErrors = () => {
+    const isPending = (e: AppEvent, type: IssueType) => !e.ignoredErrors?.includes(type);
+    const eventErrors = events.reduce((count, e, i) => count
+      + (e.serialNo !== String(i + 1) && isPending(e, 'serial') ? 1 : 0)
+      + (!e.isTimeValid && (e.timeSeverity || 'error') === 'error' && isPending(e, 'time') ? 1 : 0)
+      + (!e.isLocationValid && (e.locationSeverity || 'error') === 'error' && isPending(e, 'location') ? 1 : 0)
+      + (e.ruleViolations || []).filter(v => v.severity === 'error' && isPending(e, `rule:${v.ruleId}`)).length, 0);
+    // The export gate never goes by a deferred result
+    const currentConflicts = checkedEvents === events ? venueConflicts : findCrossEventIssues(events, planSettings, locations).venueConflicts;
+    const ignored = new Set(ignoredConflictKeys);
+    const conflictErrors = currentConflicts.filter(c => !ignored.has(c.key)).length;
+    return eventErrors + conflictErrors;
+  };
+
   // Determine if we should show the sidebar
   // Show if there are pending issues OR ignored issues (so user can restore them)
-  const hasIssues = events.some(e => {
-      const serialWrong = e.serialNo !== String(events.indexOf(e) + 1);
+  const hasIssues = venueConflicts.length > 0 || duplicateGroups.length > 0 || events.some((e, i) => {
+      const serialWrong = e.serialNo !== String(i + 1);
       const timeWrong = !e.isTimeValid;
       const locWrong = !e.isLocationValid;
-      return serialWrong || timeWrong || locWrong;
+      const ruleBroken = (e.ruleViolations?.length || 0) > 0;
+      return serialWrong || timeWrong || locWrong || ruleBroken;
   });
 
   return (
@@ -303,6 +566,15 @@ const App: React.FC = () => {
                 <Clock className="w-4 h-4 mr-1.5" />
                 时间格式
               </button>
+              <button
+                onClick={() => setView('field-rules')}
+                className={`px-3 py-2 rounded-md text-sm font-medium transition-colors flex items-center ${
+                  view === 'field-rules' ? 'bg-indigo-100 text-indigo-700' : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                <ListChecks className="w-4 h-4 mr-1.5" />
+                字段规则
+              </button>
             </nav>
           </div>
         </div>
@@ -328,6 +600,23 @@ const App: React.FC = () => {
                       )}
                     </button>
 
+                    <div className="flex items-center gap-3">
+                    {sourceFiles.length > 1 && (
+                        <label className="flex items-center text-sm text-gray-600">
+                            <FileText className="w-4 h-4 mr-1.5 text-gray-400" />
+                            <select
+                                value={activeSourceFilter}
+                                onChange={(e) => setSourceFilter(e.target.value)}
+                                className="rounded-md border border-gray-300 px-2 py-1.5 text-sm bg-white shadow-sm max-w-[16rem]"
+                                title="按来源文件筛选活动与问题"
+                            >
+                                <option value="">全部来源文件 ({events.length})</option>
+                                {sourceFiles.map(file => (
+                                    <option key={file} value={file}>{file} ({events.filter(e => getSourceFile(e) === file).length})</option>
+                                ))}
+                            </select>
+                        </label>
+                    )}
                     <button
                         onClick={exportExcel}
                         className="flex items-center px-4 py-2 bg-green-600 text-white rounded-md shadow-sm text-sm font-medium hover:bg-green-700 focus:outline-none"
@@ -335,6 +624,7 @@ const App: React.FC = () => {
                         <Download className="w-4 h-4 mr-2" />
                         导出 Excel
                     </button>
+                    </div>
                 </div>
                   
                 {isImportPanelOpen && (
@@ -343,17 +633,43 @@ const App: React.FC = () => {
                     onImportExcel={handleExcelImport}
                   />
                 )}
+
+                {validationTask && (
+                  <TaskProgressBar
+                    label={validationTask.label}
+                    progress={validationTask.progress}
+                    onCancel={() => validationTask.task.cancel()}
+                  />
+                )}
+
+                {isValidationStale && !validationTask && (
+                  <div className="flex items-center justify-between bg-amber-50 border border-amber-200 rounded-md px-4 py-2 text-sm text-amber-800">
+                    <span>重新校验已取消，部分活动的校验结果可能与当前地址库或时间格式不一致。</span>
+                    <button
+                      onClick={revalidateAll}
+                      className="flex items-center text-xs font-medium text-amber-700 hover:text-amber-900 underline underline-offset-2 ml-3 shrink-0"
+                    >
+                      <RefreshCw className="w-3.5 h-3.5 mr-1" />
+                      重新校验
+                    </button>
+                  </div>
+                )}
                 
                 <div className="border-t border-gray-200 pt-8">
                   <EventList 
                     events={events} 
-                    onDelete={(id) => setEvents(prev => prev.filter(e => e.id !== id))}
+                    onDelete={handleDeleteEvent}
                     onClearAll={() => {
                       if (confirm('确定清空所有数据吗?')) setEvents([]);
                     }}
                     onUpdateEvent={handleUpdateEvent}
+                    onSortByTime={sortEventsByTime}
+                    sourceFilter={activeSourceFilter}
+                    customFields={activeCustomFields}
+                    onUpdateCustomField={handleUpdateCustomField}
+                    onChangeCustomFieldType={changeCustomFieldType}
                     selection={selection}
-                    onSelectRow={(id, source, field) => setSelection({ id, source, field })}
+                    onSelectRow={handleSelectRow}
                   />
                 </div>
               </div>
@@ -365,6 +681,11 @@ const App: React.FC = () => {
                 <IssueSidebar 
                   events={events}
                   locations={locations}
+                  conflicts={venueConflicts}
+                  duplicates={duplicateGroups}
+                  fieldRules={activeFieldRules}
+                  onMergeDuplicates={setMergingDuplicates}
+                  sourceFilter={activeSourceFilter}
                   onFixSerial={fixSerialNumbers}
                   onAddLocationToLibrary={addLocation}
                   onAddFormatRule={addTimeFormat}
@@ -372,6 +693,12 @@ const App: React.FC = () => {
                   onUpdateEventLocation={updateEventLocation}
                   onIgnoreError={handleIgnoreError}
                   onRestoreError={handleRestoreError}
+                  ignoredConflictKeys={ignoredConflictKeys}
+                  onIgnoreConflict={handleIgnoreConflict}
+                  onRestoreConflict={handleRestoreConflict}
+                  ignoredDuplicatePairs={ignoredDuplicatePairs}
+                  onIgnoreDuplicates={handleIgnoreDuplicates}
+                  onRestoreDuplicates={handleRestoreDuplicates}
                   selection={selection}
                   onSelectIssue={(id, source, field) => setSelection({ id, source, field })}
                 />
@@ -383,12 +710,24 @@ const App: React.FC = () => {
             locations={locations} 
             onAddLocation={addLocation} 
             onRemoveLocation={removeLocation}
+            onToggleShared={toggleLocationShared}
+          />
+        ) : view === 'field-rules' ? (
+          <FieldRulesLibrary
+            rules={fieldRules}
+            customFields={customFields}
+            onAddRule={addFieldRule}
+            onRemoveRule={removeFieldRule}
           />
         ) : (
           <TimeFormatLibrary
             formats={timeFormats}
             onAddFormat={addTimeFormat}
             onRemoveFormat={removeTimeFormat}
+            planSettings={planSettings}
+            onChangePlanSettings={setPlanSettings}
+            remarkKeywords={remarkKeywords}
+            onChangeRemarkKeywords={setRemarkKeywords}
           />
         )}
       </main>
@@ -396,9 +735,43 @@ const App: React.FC = () => {
       {/* Footer */}
       <footer className="bg-white border-t border-gray-200 py-4 mt-auto">
          <div className="max-w-[95%] mx-auto px-4 text-center text-sm text-gray-500">
-            &copy; {new Date().getFullYear()} Event Validator. 红色高亮表示格式错误或未知地址。
+            &copy; {new Date().getFullYear()} Event Validator. 红色表示错误，黄色表示警告；仅错误会阻止导出。
          </div>
       </footer>
+
+      {pendingImport && (
+        <ColumnMappingDialog
+          sheets={pendingImport.sheets}
+          initialLayouts={pendingImport.layouts}
+          onConfirm={handleConfirmMapping}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      {pendingReport && (
+        <ImportReportDialog
+          reports={pendingReport}
+          onConfirm={handleConfirmReport}
+          onCancel={() => setPendingReport(null)}
+        />
+      )}
+
+      {pendingMerge && (
+        <ImportMergeDialog
+          existing={events}
+          incoming={pendingMerge.events}
+          onConfirm={handleConfirmMerge}
+          onCancel={() => setPendingMerge(null)}
+        />
+      )}
+
+      {mergingEvents.length > 1 && (
+        <DuplicateMergeDialog
+          events={mergingEvents}
+          onConfirm={handleConfirmDuplicateMerge}
+          onCancel={() => setMergingDuplicates(null)}
+        />
+      )}
     </div>
   );
 };
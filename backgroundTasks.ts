@@ -0,0 +1,58 @@
+import { WorkerRequest, WorkerResponse, TaskProgress, ImportSheet, TimeValidation, TimeFormatItem, PlanSettings } from './types.ts';
+import { getSlowPatterns, addSlowPatterns } from './regexSafety.ts';
+
+export interface BackgroundTask<T> {
+  // Resolves with null when the task was cancelled
+  promise: Promise<T | null>;
+  cancel: () => void;
+}
+
+const runTask = <T>(request: WorkerRequest, onProgress?: (progress: TaskProgress) => void, transfer: Transferable[] = []): BackgroundTask<T> => {
+  const worker = new Worker(new URL('./importWorker.ts', import.meta.url), { type: 'module' });
+  let settle: (value: T | null) => void = () => {};
+
+  const promise = new Promise<T | null>((resolve, reject) => {
+    settle = resolve;
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') {
+        // Patterns the worker found slow are switched off here too
+        addSlowPatterns(message.slowPatterns || []);
+        resolve(message.result as T);
+      }
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Worker failed to start'));
+    };
+  });
+
+  worker.postMessage(request, transfer);
+  return {
+    promise,
+    cancel: () => {
+      // The worker runs synchronously, so stopping it is the only way to interrupt it
+      worker.terminate();
+      settle(null);
+    }
+  };
+};
+
+// The buffer is transferred to the worker and cannot be used afterwards
+export const parseWorkbookInBackground = (fileName: string, buffer: ArrayBuffer, onProgress?: (progress: TaskProgress) => void) =>
+  runTask<ImportSheet[]>({ type: 'parse-workbook', fileName, buffer }, onProgress, [buffer]);
+
+// Results come back in the order of times
+export const validateTimesInBackground = (
+  times: string[],
+  timeFormats: TimeFormatItem[],
+  plan: PlanSettings,
+  remarkKeywords: string[],
+  onProgress?: (progress: TaskProgress) => void
+) => runTask<TimeValidation[]>({ type: 'validate-times', times, timeFormats, plan, remarkKeywords, slowPatterns: getSlowPatterns() }, onProgress);
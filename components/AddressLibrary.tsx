@@ -1,14 +1,15 @@
 import React, { useState } from 'react';
 import { AddressLibraryItem } from '../types.ts';
-import { Plus, Trash2, MapPin } from 'lucide-react';
+import { Plus, Trash2, MapPin, Users } from 'lucide-react';
 
 interface AddressLibraryProps {
   locations: AddressLibraryItem[];
   onAddLocation: (name: string) => void;
   onRemoveLocation: (id: string) => void;
+  onToggleShared: (id: string) => void;
 }
 
-export const AddressLibrary: React.FC<AddressLibraryProps> = ({ locations, onAddLocation, onRemoveLocation }) => {
+export const AddressLibrary: React.FC<AddressLibraryProps> = ({ locations, onAddLocation, onRemoveLocation, onToggleShared }) => {
   const [newLocation, setNewLocation] = useState('');
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -27,7 +28,7 @@ export const AddressLibrary: React.FC<AddressLibraryProps> = ({ locations, onAdd
         </div>
         <div>
           <h2 className="text-xl font-bold text-gray-900">地址库管理</h2>
-          <p className="text-sm text-gray-500">在此维护合法的活动地点。导入数据时将自动核对。</p>
+          <p className="text-sm text-gray-500">在此维护合法的活动地点。导入数据时将自动核对。标记为“可共用”的地点 (如线上渠道) 不检查场地冲突。</p>
         </div>
       </div>
 
@@ -58,12 +59,24 @@ export const AddressLibrary: React.FC<AddressLibraryProps> = ({ locations, onAdd
             <span className="text-sm font-medium text-gray-700 truncate mr-2" title={loc.name}>
               {loc.name}
             </span>
-            <button
-              onClick={() => onRemoveLocation(loc.id)}
-              className="text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
-            >
-              <Trash2 className="w-4 h-4" />
-            </button>
+            <div className="flex items-center gap-2 shrink-0">
+              <button
+                onClick={() => onToggleShared(loc.id)}
+                title={loc.shared ? '可共用：多个活动可同时使用，不检查场地冲突' : '设为可共用'}
+                className={`flex items-center px-1.5 py-0.5 rounded text-xs transition-colors ${
+                  loc.shared ? 'bg-blue-100 text-blue-700' : 'text-gray-400 hover:text-blue-600 opacity-0 group-hover:opacity-100'
+                }`}
+              >
+                <Users className="w-3 h-3 mr-1" />
+                可共用
+              </button>
+              <button
+                onClick={() => onRemoveLocation(loc.id)}
+                className="text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
           </div>
         ))}
         {locations.length === 0 && (
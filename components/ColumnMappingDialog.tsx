@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { ImportSheet, SheetLayout, ColumnKey } from '../types.ts';
+import { Columns, X, Check } from 'lucide-react';
+import { COLUMN_LABELS, MAX_HEADER_ROWS, columnLetter, combineHeaderRows, countHeaderRows, detectColumnMap, getColumnCount, getSheetLabel } from '../importUtils.ts';
+
+interface ColumnMappingDialogProps {
+  sheets: ImportSheet[];
+  initialLayouts: SheetLayout[];
+  onConfirm: (layouts: SheetLayout[], remember: boolean) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 6;
+const HEADER_CANDIDATE_ROWS = 20;
+
+const FIELD_COLORS: Record<ColumnKey, string> = {
+  serial: 'bg-orange-50 text-orange-800',
+  name: 'bg-indigo-50 text-indigo-800',
+  time: 'bg-green-50 text-green-800',
+  location: 'bg-blue-50 text-blue-800',
+  timeEnd: 'bg-green-50 text-green-800',
+  clockStart: 'bg-teal-50 text-teal-800',
+  clockEnd: 'bg-teal-50 text-teal-800',
+};
+
+const cellText = (cell: any) => String(cell ?? '').trim();
+
+export const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({ sheets, initialLayouts, onConfirm, onCancel }) => {
+  const [layouts, setLayouts] = useState<SheetLayout[]>(initialLayouts);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [remember, setRemember] = useState(true);
+
+  const sheet = sheets[activeIndex];
+  const layout = layouts[activeIndex];
+  const columnCount = Math.max(getColumnCount(sheet.rows), ...(Object.values(layout.colMap) as number[]).map(i => i + 1));
+  const columns = Array.from({ length: columnCount }, (_, i) => i);
+  const headerLabels = combineHeaderRows(sheet.rows, layout.headerRowIndex, layout.headerRowCount);
+  const previewStart = layout.headerRowIndex >= 0 ? layout.headerRowIndex : 0;
+  const previewRows = sheet.rows.slice(previewStart, previewStart + layout.headerRowCount + PREVIEW_ROWS);
+
+  const updateLayout = (patch: Partial<SheetLayout>) => {
+    setLayouts(prev => prev.map((l, i) => i === activeIndex ? { ...l, ...patch } : l));
+  };
+
+  const handleHeaderRowChange = (headerRowIndex: number) => {
+    // Re-run keyword detection on the newly chosen header row
+    const headerRowCount = countHeaderRows(sheet.rows, headerRowIndex);
+    updateLayout({ headerRowIndex, headerRowCount, colMap: detectColumnMap(sheet.rows, headerRowIndex, headerRowCount) });
+  };
+
+  const handleHeaderRowCountChange = (headerRowCount: number) => {
+    updateLayout({ headerRowCount, colMap: detectColumnMap(sheet.rows, layout.headerRowIndex, headerRowCount) });
+  };
+
+  const handleFieldChange = (field: ColumnKey, idx: number) => {
+    updateLayout({ colMap: { ...layout.colMap, [field]: idx } });
+  };
+
+  const fieldForColumn = (idx: number) =>
+    (Object.keys(layout.colMap) as ColumnKey[]).find(key => layout.colMap[key] === idx);
+
+  const columnOptionLabel = (idx: number) => {
+    const header = headerLabels[idx] || '';
+    return header ? `${columnLetter(idx)} 列: ${header}` : `${columnLetter(idx)} 列`;
+  };
+
+  const missingName = layouts.some(l => l.colMap.name < 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center">
+            <div className="bg-indigo-100 p-2 rounded-lg mr-3">
+              <Columns className="w-5 h-5 text-indigo-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-gray-900">确认列映射</h2>
+              <p className="text-xs text-gray-500">请核对自动识别的列，如有错误可通过下拉框重新指定。开始/结束日期分列时，“时间”选开始日期列。</p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100" title="取消导入">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {sheets.length > 1 && (
+          <div className="flex border-b border-gray-200 px-6 overflow-x-auto">
+            {sheets.map((s, i) => (
+              <button
+                key={i}
+                onClick={() => setActiveIndex(i)}
+                className={`px-3 py-2 text-sm font-medium whitespace-nowrap transition-colors ${i === activeIndex ? 'text-indigo-700 border-b-2 border-indigo-600' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                {getSheetLabel(s)}
+                {layouts[i].colMap.name < 0 && <span className="ml-1 text-red-500">*</span>}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="px-6 py-4 overflow-y-auto space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">表头所在行</label>
+              <select
+                value={layout.headerRowIndex}
+                onChange={(e) => handleHeaderRowChange(Number(e.target.value))}
+                className="w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm bg-white"
+              >
+                <option value={-1}>无表头</option>
+                {sheet.rows.slice(0, HEADER_CANDIDATE_ROWS).map((row, i) => (
+                  <option key={i} value={i}>
+                    第 {i + 1} 行{Array.isArray(row) ? `: ${row.map(cellText).filter(Boolean).join(' / ').slice(0, 20)}` : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">表头行数</label>
+              <select
+                value={layout.headerRowCount}
+                disabled={layout.headerRowIndex < 0}
+                onChange={(e) => handleHeaderRowCountChange(Number(e.target.value))}
+                className="w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm bg-white disabled:bg-gray-100"
+              >
+                {layout.headerRowIndex < 0 && <option value={0}>-</option>}
+                {Array.from({ length: MAX_HEADER_ROWS }, (_, i) => i + 1).map(n => (
+                  <option key={n} value={n}>{n === 1 ? '1 行' : `${n} 行 (合并多行表头)`}</option>
+                ))}
+              </select>
+            </div>
+            {(Object.keys(COLUMN_LABELS) as ColumnKey[]).map(field => (
+              <div key={field}>
+                <label className="block text-xs font-medium text-gray-600 mb-1">
+                  {COLUMN_LABELS[field]}{field === 'name' && <span className="text-red-500 ml-0.5">*</span>}
+                </label>
+                <select
+                  value={layout.colMap[field]}
+                  onChange={(e) => handleFieldChange(field, Number(e.target.value))}
+                  className={`w-full rounded-md border px-2 py-1.5 text-sm bg-white ${field === 'name' && layout.colMap.name < 0 ? 'border-red-300' : 'border-gray-300'}`}
+                >
+                  <option value={-1}>{field === 'serial' ? '无 (自动生成)' : '无'}</option>
+                  {columns.map(idx => (
+                    <option key={idx} value={idx}>{columnOptionLabel(idx)}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto border border-gray-200 rounded-md">
+            <table className="min-w-full text-xs">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-2 py-1.5 text-left text-gray-400 font-normal w-10">行</th>
+                  {columns.map(idx => {
+                    const field = fieldForColumn(idx);
+                    return (
+                      <th key={idx} className={`px-2 py-1.5 text-left font-medium whitespace-nowrap ${field ? FIELD_COLORS[field] : 'text-gray-400'}`}>
+                        {columnLetter(idx)}{field && ` → ${COLUMN_LABELS[field]}`}
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {previewRows.map((row, offset) => {
+                  const rowIndex = previewStart + offset;
+                  const isHeader = layout.headerRowIndex >= 0 && rowIndex >= layout.headerRowIndex && rowIndex < layout.headerRowIndex + layout.headerRowCount;
+                  return (
+                    <tr key={rowIndex} className={isHeader ? 'bg-gray-100 font-semibold' : ''}>
+                      <td className="px-2 py-1 text-gray-400">{rowIndex + 1}</td>
+                      {columns.map(idx => (
+                        <td key={idx} className="px-2 py-1 text-gray-700 max-w-[160px] truncate" title={cellText(Array.isArray(row) ? row[idx] : '')}>
+                          {cellText(Array.isArray(row) ? row[idx] : '')}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-gray-200 bg-gray-50 rounded-b-lg">
+          <label className="flex items-center text-sm text-gray-600 cursor-pointer">
+            <input type="checkbox" className="mr-2" checked={remember} onChange={(e) => setRemember(e.target.checked)} />
+            记住此表头的列映射，下次导入相同格式时不再询问
+          </label>
+          <div className="flex gap-2">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 bg-white text-gray-700 rounded-md text-sm font-medium border border-gray-300 hover:bg-gray-50"
+            >
+              取消
+            </button>
+            <button
+              onClick={() => onConfirm(layouts, remember)}
+              disabled={missingName}
+              title={missingName ? '请为每个工作表指定“活动名称”列' : undefined}
+              className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-md text-sm font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Check className="w-4 h-4 mr-1.5" />
+              确认导入
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
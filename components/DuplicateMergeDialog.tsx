@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { AppEvent, DuplicateMergeValues } from '../types.ts';
+import { Combine, X, Check } from 'lucide-react';
+import { formatEventSource } from '../importUtils.ts';
+
+interface DuplicateMergeDialogProps {
+  events: AppEvent[]; // The duplicate group in list order; the first one is kept
+  onConfirm: (values: DuplicateMergeValues) => void;
+  onCancel: () => void;
+}
+
+type MergeField = 'name' | 'time' | 'location';
+
+const FIELD_LABELS: Record<MergeField, string> = { name: '活动名称', time: '时间', location: '地点' };
+
+const distinct = (values: string[]) => Array.from(new Set(values));
+
+export const DuplicateMergeDialog: React.FC<DuplicateMergeDialogProps> = ({ events, onConfirm, onCancel }) => {
+  const [kept] = events;
+  const customKeys = distinct(events.flatMap(e => Object.keys(e.customFields || {})));
+
+  // Start from the kept event; custom values it lacks come from the first member that has one
+  const [values, setValues] = useState<DuplicateMergeValues>(() => ({
+    name: kept.name,
+    time: kept.time,
+    location: kept.location,
+    customFields: Object.fromEntries(customKeys.map(key => [key, events.map(e => e.customFields?.[key] || '').find(Boolean) || '']))
+  }));
+
+  const rows: { label: string, options: string[], value: string, onChange: (value: string) => void }[] = [
+    ...(Object.keys(FIELD_LABELS) as MergeField[]).map(field => ({
+      label: FIELD_LABELS[field],
+      options: distinct(events.map(e => e[field])),
+      value: values[field],
+      onChange: (value: string) => setValues(prev => ({ ...prev, [field]: value }))
+    })),
+    ...customKeys.map(key => ({
+      label: key,
+      options: distinct(events.map(e => e.customFields?.[key] || '')),
+      value: values.customFields[key],
+      onChange: (value: string) => setValues(prev => ({ ...prev, customFields: { ...prev.customFields, [key]: value } }))
+    }))
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center">
+            <div className="bg-amber-100 p-2 rounded-lg mr-3">
+              <Combine className="w-5 h-5 text-amber-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-gray-900">合并重复活动</h2>
+              <p className="text-xs text-gray-500">{events.length} 条记录将合并为序号 #{kept.serialNo} 的一条，其余记录将被删除。</p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100" title="取消">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 overflow-y-auto space-y-4">
+          <div className="border border-gray-200 rounded-md divide-y divide-gray-100">
+            {events.map(evt => (
+              <div key={evt.id} className="flex items-center px-3 py-2 text-xs">
+                <span className="text-gray-400 w-10 shrink-0">#{evt.serialNo}</span>
+                <span className="flex-1 truncate font-medium text-gray-800" title={evt.name}>{evt.name}</span>
+                {evt.source && <span className="text-gray-400 truncate ml-2 max-w-[40%]">{formatEventSource(evt.source)}</span>}
+              </div>
+            ))}
+          </div>
+
+          {rows.map(row => (
+            <div key={row.label}>
+              <div className="text-sm font-medium text-gray-700 mb-1">{row.label}</div>
+              {row.options.length === 1 ? (
+                <div className="text-sm text-gray-500 px-3 py-1.5 bg-gray-50 rounded border border-gray-100">{row.options[0] || '(空)'}</div>
+              ) : (
+                <div className="space-y-1">
+                  {row.options.map(option => (
+                    <label
+                      key={option}
+                      className={`flex items-center px-3 py-1.5 rounded border text-sm cursor-pointer transition-colors ${row.value === option ? 'border-amber-400 bg-amber-50' : 'border-gray-200 hover:bg-gray-50'}`}
+                    >
+                      <input
+                        type="radio"
+                        name={`merge-${row.label}`}
+                        className="mr-2"
+                        checked={row.value === option}
+                        onChange={() => row.onChange(option)}
+                      />
+                      <span className={option ? 'text-gray-800' : 'text-gray-400'}>{option || '(空)'}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-gray-200 bg-gray-50 rounded-b-lg">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-white text-gray-700 rounded-md text-sm font-medium border border-gray-300 hover:bg-gray-50"
+          >
+            取消
+          </button>
+          <button
+            onClick={() => onConfirm(values)}
+            className="flex items-center px-4 py-2 bg-amber-600 text-white rounded-md text-sm font-medium hover:bg-amber-700"
+          >
+            <Check className="w-4 h-4 mr-1.5" />
+            确认合并
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
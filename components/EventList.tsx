@@ -1,12 +1,169 @@
 import React, { useEffect } from 'react';
-import { AppEvent, SelectionState } from '../types.ts';
-import { Trash2, Clock } from 'lucide-react';
+import { AppEvent, SelectionState, CustomFieldDef, CustomFieldType, Severity } from '../types.ts';
+import { Trash2, Clock, ArrowDownWideNarrow } from 'lucide-react';
+import { CUSTOM_FIELD_TYPE_LABELS, worstSeverity } from '../constants.ts';
+import { customRuleField } from '../fieldRules.ts';
+import { formatEventSource, getSourceFile } from '../importUtils.ts';
+import { describeParsedTime } from '../timeParser.ts';
+
+const SEVERITY_TEXT_CLASSES: Record<Severity, string> = {
+  error: 'text-red-600 font-bold',
+  warning: 'text-amber-600 font-semibold',
+  info: 'text-blue-600',
+};
+
+const SEVERITY_ROW_CLASSES: Record<Severity, string> = {
+  error: 'bg-red-50 hover:bg-red-100',
+  warning: 'bg-amber-50 hover:bg-amber-100',
+  info: 'hover:bg-gray-50',
+};
+
+const cellClass = (severity: Severity | null, fallback = 'text-gray-500') => (severity ? SEVERITY_TEXT_CLASSES[severity] : fallback);
+
+interface EventRowProps {
+  event: AppEvent;
+  index: number;
+  customFields: CustomFieldDef[];
+  isSelected: boolean;
+  onDelete: (id: string) => void;
+  onUpdateEvent: (id: string, field: keyof AppEvent, value: string) => void;
+  onUpdateCustomField?: (id: string, key: string, value: string) => void;
+  onSelectRow?: (id: string, source: 'table', field?: 'time' | 'location' | 'serial') => void;
+}
+
+// Rows only re-render when their own event, position or selection changes, which keeps editing
+// smooth in long lists as long as the callbacks passed in are stable
+const EventRow = React.memo(({ event, index, customFields, isSelected, onDelete, onUpdateEvent, onUpdateCustomField, onSelectRow }: EventRowProps) => {
+  // Serial Validation
+  const expectedSerial = (index + 1).toString();
+  const isSerialValid = event.serialNo === expectedSerial;
+  const isSerialIgnored = event.ignoredErrors?.includes('serial');
+
+  const isTimeIgnored = event.ignoredErrors?.includes('time');
+  const isLocationIgnored = event.ignoredErrors?.includes('location');
+
+  // Visual error state check (ignore ignored errors)
+  const hasSerialError = !isSerialValid && !isSerialIgnored;
+  const timeSeverity = !event.isTimeValid && !isTimeIgnored ? event.timeSeverity || 'error' : null;
+  const locationSeverity = !event.isLocationValid && !isLocationIgnored ? event.locationSeverity || 'error' : null;
+
+  // Field rule violations still pending, most serious per field
+  const pendingViolations = (event.ruleViolations || []).filter(v => !event.ignoredErrors?.includes(`rule:${v.ruleId}`));
+  const ruleSeverity = (field: string) => worstSeverity(pendingViolations.filter(v => v.field === field).map(v => v.severity));
+  const ruleMessages = (field: string) => pendingViolations.filter(v => v.field === field).map(v => v.message).join('\n') || undefined;
+
+  const rowSeverity = worstSeverity([
+    hasSerialError ? 'error' : null,
+    timeSeverity,
+    locationSeverity,
+    ...pendingViolations.map(v => v.severity)
+  ]);
+
+  return (
+    <tr 
+      id={`event-row-${event.id}`}
+      onClick={() => onSelectRow && onSelectRow(event.id, 'table')}
+      className={`transition-colors cursor-pointer ${
+        isSelected ? 'bg-indigo-50 ring-1 ring-inset ring-indigo-300' : 
+        rowSeverity ? SEVERITY_ROW_CLASSES[rowSeverity] : 
+        'hover:bg-gray-50'
+      }`}
+    >
+      <td className="px-2 py-3 align-top text-center" title={event.source ? `来源: ${formatEventSource(event.source)}` : undefined}>
+        <input 
+          type="text" 
+          value={event.serialNo}
+          onClick={(e) => { e.stopPropagation(); onSelectRow?.(event.id, 'table', 'serial'); }}
+          onChange={(e) => onUpdateEvent(event.id, 'serialNo', e.target.value)}
+          title={ruleMessages('serialNo')}
+          className={`w-full text-center bg-transparent border-b border-transparent focus:border-indigo-500 focus:ring-0 text-sm font-medium cursor-pointer ${
+            cellClass(hasSerialError ? 'error' : ruleSeverity('serialNo'))
+          }`}
+        />
+      </td>
+      <td className="px-2 py-3 align-top">
+        <input 
+          type="text"
+          value={event.name}
+          onChange={(e) => onUpdateEvent(event.id, 'name', e.target.value)}
+          title={ruleMessages('name')}
+          className={`w-full bg-transparent border-b border-transparent focus:border-indigo-500 focus:ring-0 text-sm font-medium ${
+            cellClass(ruleSeverity('name'), 'text-gray-900')
+          }`}
+        />
+      </td>
+      <td className="px-2 py-3 align-top">
+        <input 
+          type="text"
+          value={event.time}
+          title={[event.parsedTime && describeParsedTime(event.parsedTime), timeSeverity && event.validationMessage, ruleMessages('time')].filter(Boolean).join('\n') || undefined}
+          onClick={(e) => { e.stopPropagation(); onSelectRow?.(event.id, 'table', 'time'); }}
+          onChange={(e) => onUpdateEvent(event.id, 'time', e.target.value)}
+          className={`w-full bg-transparent border-b border-transparent focus:border-indigo-500 focus:ring-0 text-sm cursor-pointer ${
+            cellClass(worstSeverity([timeSeverity, ruleSeverity('time')]))
+          }`}
+        />
+        {event.timeRemarks && (
+          <div className="flex flex-wrap gap-1 mt-1">
+            {event.timeRemarks.map((remark, i) => (
+              <span key={i} className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-500 text-xs" title="时间备注，导出时保留在原位置">
+                {remark}
+              </span>
+            ))}
+          </div>
+        )}
+      </td>
+      <td className="px-2 py-3 align-top">
+         <input 
+          type="text"
+          value={event.location}
+          onClick={(e) => { e.stopPropagation(); onSelectRow?.(event.id, 'table', 'location'); }}
+          onChange={(e) => onUpdateEvent(event.id, 'location', e.target.value)}
+          title={ruleMessages('location')}
+          className={`w-full bg-transparent border-b border-transparent focus:border-indigo-500 focus:ring-0 text-sm cursor-pointer ${
+            cellClass(worstSeverity([locationSeverity, ruleSeverity('location')]))
+          }`}
+        />
+      </td>
+      {customFields.map(def => (
+        <td key={def.key} className="px-2 py-3 align-top">
+          <input
+            type="text"
+            value={event.customFields?.[def.key] || ''}
+            onChange={(e) => onUpdateCustomField?.(event.id, def.key, e.target.value)}
+            title={ruleMessages(customRuleField(def.key))}
+            className={`w-full bg-transparent border-b border-transparent focus:border-indigo-500 focus:ring-0 text-sm ${
+              cellClass(ruleSeverity(customRuleField(def.key)))
+            }`}
+          />
+        </td>
+      ))}
+      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium align-top">
+        <button
+          onClick={(e) => {
+              e.stopPropagation();
+              onDelete(event.id);
+          }}
+          className="text-gray-400 hover:text-red-600 transition-colors"
+          title="删除"
+        >
+          <Trash2 className="w-5 h-5" />
+        </button>
+      </td>
+    </tr>
+  );
+});
 
 interface EventListProps {
   events: AppEvent[];
   onDelete: (id: string) => void;
   onClearAll: () => void;
   onUpdateEvent: (id: string, field: keyof AppEvent, value: string) => void;
+  onSortByTime?: () => void;
+  sourceFilter?: string; // Only show events imported from this file
+  customFields?: CustomFieldDef[];
+  onUpdateCustomField?: (id: string, key: string, value: string) => void;
+  onChangeCustomFieldType?: (key: string, type: CustomFieldType) => void;
   onSelectRow?: (id: string, source: 'table', field?: 'time' | 'location' | 'serial') => void;
   selection?: SelectionState | null;
 }
@@ -16,6 +173,11 @@ export const EventList: React.FC<EventListProps> = ({
   onDelete, 
   onClearAll, 
   onUpdateEvent, 
+  onSortByTime,
+  sourceFilter = '',
+  customFields = [],
+  onUpdateCustomField,
+  onChangeCustomFieldType,
   onSelectRow,
   selection
 }) => {
@@ -41,20 +203,41 @@ export const EventList: React.FC<EventListProps> = ({
     );
   }
 
+  const shownCount = sourceFilter ? events.filter(e => getSourceFile(e) === sourceFilter).length : events.length;
+
   return (
     <div className="space-y-4">
       <div className="flex justify-between items-center mb-4">
-        <h2 className="text-xl font-bold text-gray-800">活动列表 ({events.length})</h2>
-        <button
-          onClick={onClearAll}
-          className="px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 rounded border border-red-200 transition-colors"
-        >
-          清空列表
-        </button>
+        <h2 className="text-xl font-bold text-gray-800">
+          活动列表 ({sourceFilter ? `${shownCount} / ${events.length}` : events.length})
+          {sourceFilter && <span className="ml-2 text-sm font-normal text-gray-500">来源: {sourceFilter}</span>}
+        </h2>
+        <div className="flex gap-2">
+          {onSortByTime && (
+            <button
+              onClick={onSortByTime}
+              className="flex items-center px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50 rounded border border-gray-300 transition-colors"
+              title="按开始日期排序，无法解析的时间排在最后"
+            >
+              <ArrowDownWideNarrow className="w-4 h-4 mr-1" />
+              按时间排序
+            </button>
+          )}
+          <button
+            onClick={onClearAll}
+            className="px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 rounded border border-red-200 transition-colors"
+          >
+            清空列表
+          </button>
+        </div>
       </div>
 
       <div className="overflow-x-auto bg-white rounded-lg shadow border border-gray-200">
-        <table className="min-w-full divide-y divide-gray-200 table-fixed">
+        {/* Custom columns get a fixed width on top of the core columns; the wrapper scrolls horizontally */}
+        <table
+          className="min-w-full divide-y divide-gray-200 table-fixed"
+          style={customFields.length > 0 ? { minWidth: `calc(100% + ${customFields.length * 9}rem)` } : undefined}
+        >
           <thead className="bg-gray-50">
             <tr>
               <th scope="col" className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider w-[10%]">
@@ -69,96 +252,43 @@ export const EventList: React.FC<EventListProps> = ({
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-[20%]">
                 地点
               </th>
+              {customFields.map(def => (
+                <th key={def.key} scope="col" className="px-2 py-3 text-left text-xs font-medium text-gray-500 tracking-wider w-36">
+                  <div className="truncate" title={def.key}>{def.key}</div>
+                  <select
+                    value={def.type}
+                    onChange={(e) => onChangeCustomFieldType?.(def.key, e.target.value as CustomFieldType)}
+                    className="mt-1 text-xs font-normal text-gray-400 bg-transparent border-none p-0 focus:ring-0 cursor-pointer"
+                    title="字段类型"
+                  >
+                    {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map(type => (
+                      <option key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </th>
+              ))}
               <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider w-[10%]">
                 操作
               </th>
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
-            {events.map((event, index) => {
-              // Serial Validation
-              const expectedSerial = (index + 1).toString();
-              const isSerialValid = event.serialNo === expectedSerial;
-              const isSerialIgnored = event.ignoredErrors?.includes('serial');
-
-              const isTimeIgnored = event.ignoredErrors?.includes('time');
-              const isLocationIgnored = event.ignoredErrors?.includes('location');
-
-              // Visual error state check (ignore ignored errors)
-              const hasSerialError = !isSerialValid && !isSerialIgnored;
-              const hasTimeError = !event.isTimeValid && !isTimeIgnored;
-              const hasLocationError = !event.isLocationValid && !isLocationIgnored;
-
-              const hasAnyError = hasSerialError || hasTimeError || hasLocationError;
-              const isSelected = selection?.id === event.id;
-              
-              return (
-                <tr 
+            {events.map((event, index) => (
+              // Filtered rows are skipped rather than removed, so serials are still checked against the full list
+              sourceFilter && getSourceFile(event) !== sourceFilter ? null : (
+                <EventRow
                   key={event.id}
-                  id={`event-row-${event.id}`}
-                  onClick={() => onSelectRow && onSelectRow(event.id, 'table')}
-                  className={`transition-colors cursor-pointer ${
-                    isSelected ? 'bg-indigo-50 ring-1 ring-inset ring-indigo-300' : 
-                    hasAnyError ? 'bg-red-50 hover:bg-red-100' : 
-                    'hover:bg-gray-50'
-                  }`}
-                >
-                  <td className="px-2 py-3 align-top text-center">
-                    <input 
-                      type="text" 
-                      value={event.serialNo}
-                      onClick={(e) => { e.stopPropagation(); onSelectRow?.(event.id, 'table', 'serial'); }}
-                      onChange={(e) => onUpdateEvent(event.id, 'serialNo', e.target.value)}
-                      className={`w-full text-center bg-transparent border-b border-transparent focus:border-indigo-500 focus:ring-0 text-sm font-medium cursor-pointer ${
-                        hasSerialError ? 'text-red-600 font-bold' : 'text-gray-500'
-                      }`}
-                    />
-                  </td>
-                  <td className="px-2 py-3 align-top">
-                    <input 
-                      type="text"
-                      value={event.name}
-                      onChange={(e) => onUpdateEvent(event.id, 'name', e.target.value)}
-                      className="w-full bg-transparent border-b border-transparent focus:border-indigo-500 focus:ring-0 text-sm font-medium text-gray-900"
-                    />
-                  </td>
-                  <td className="px-2 py-3 align-top">
-                    <input 
-                      type="text"
-                      value={event.time}
-                      onClick={(e) => { e.stopPropagation(); onSelectRow?.(event.id, 'table', 'time'); }}
-                      onChange={(e) => onUpdateEvent(event.id, 'time', e.target.value)}
-                      className={`w-full bg-transparent border-b border-transparent focus:border-indigo-500 focus:ring-0 text-sm cursor-pointer ${
-                        hasTimeError ? 'text-red-600 font-bold' : 'text-gray-500'
-                      }`}
-                    />
-                  </td>
-                  <td className="px-2 py-3 align-top">
-                     <input 
-                      type="text"
-                      value={event.location}
-                      onClick={(e) => { e.stopPropagation(); onSelectRow?.(event.id, 'table', 'location'); }}
-                      onChange={(e) => onUpdateEvent(event.id, 'location', e.target.value)}
-                      className={`w-full bg-transparent border-b border-transparent focus:border-indigo-500 focus:ring-0 text-sm cursor-pointer ${
-                        hasLocationError ? 'text-red-600 font-bold' : 'text-gray-500'
-                      }`}
-                    />
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium align-top">
-                    <button
-                      onClick={(e) => {
-                          e.stopPropagation();
-                          onDelete(event.id);
-                      }}
-                      className="text-gray-400 hover:text-red-600 transition-colors"
-                      title="删除"
-                    >
-                      <Trash2 className="w-5 h-5" />
-                    </button>
-                  </td>
-                </tr>
-              );
-            })}
+                  event={event}
+                  index={index}
+                  customFields={customFields}
+                  isSelected={selection?.id === event.id}
+                  onDelete={onDelete}
+                  onUpdateEvent={onUpdateEvent}
+                  onUpdateCustomField={onUpdateCustomField}
+                  onSelectRow={onSelectRow}
+                />
+              )
+            ))}
           </tbody>
         </table>
       </div>
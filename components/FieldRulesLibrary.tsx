@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { FieldRule, FieldRuleKind, CustomFieldDef, Severity } from '../types.ts';
+import { Plus, Trash2, ListChecks, PlayCircle, CheckCircle, XCircle } from 'lucide-react';
+import { SEVERITY_LABELS, SEVERITY_BADGE_CLASSES } from '../constants.ts';
+import { checkPatternSafety } from '../regexSafety.ts';
+import { BUILTIN_RULE_FIELDS, FIELD_RULE_KIND_LABELS, FIELD_RULE_VALUE_LABELS, customRuleField, getRuleFieldLabel, describeFieldRule, checkFieldRule } from '../fieldRules.ts';
+
+interface FieldRulesLibraryProps {
+  rules: FieldRule[];
+  customFields: CustomFieldDef[];
+  onAddRule: (rule: Omit<FieldRule, 'id'>) => void;
+  onRemoveRule: (id: string) => void;
+}
+
+const EMPTY_RULE: Omit<FieldRule, 'id'> = { field: 'name', kind: 'required', value: '', name: '', severity: 'error' };
+
+export const FieldRulesLibrary: React.FC<FieldRulesLibraryProps> = ({ rules, customFields, onAddRule, onRemoveRule }) => {
+  const [newRule, setNewRule] = useState<Omit<FieldRule, 'id'>>(EMPTY_RULE);
+  const [testValue, setTestValue] = useState('');
+
+  const fieldOptions = [
+    ...Object.keys(BUILTIN_RULE_FIELDS),
+    ...customFields.map(def => customRuleField(def.key)),
+    // Keep fields of existing rules selectable even when their column is gone
+    ...rules.map(r => r.field)
+  ].filter((field, i, all) => all.indexOf(field) === i);
+
+  const valueLabel = FIELD_RULE_VALUE_LABELS[newRule.kind];
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = (newRule.value || '').trim();
+    if (valueLabel && !value) {
+      alert(`请填写${valueLabel}。`);
+      return;
+    }
+    if (newRule.kind === 'max-length' && !(Number(value) > 0)) {
+      alert('最大长度应为正整数。');
+      return;
+    }
+    if (newRule.kind === 'pattern') {
+      // Patterns that could hang validation are never run, so they cannot be added either
+      const error = checkPatternSafety(value).find(i => i.severity === 'error');
+      if (error) {
+        alert(error.message);
+        return;
+      }
+    }
+    onAddRule({
+      field: newRule.field,
+      kind: newRule.kind,
+      severity: newRule.severity,
+      ...(valueLabel ? { value: newRule.kind === 'allowed-values' ? newRule.value : value } : {}),
+      ...(newRule.kind === 'pattern' && newRule.name?.trim() ? { name: newRule.name.trim() } : {})
+    });
+    setNewRule({ ...EMPTY_RULE, field: newRule.field, severity: newRule.severity });
+  };
+
+  // Rules of the chosen field, tried on the test value
+  const testResults = rules
+    .filter(rule => rule.field === newRule.field)
+    .map(rule => ({ rule, message: checkFieldRule(rule, testValue) }));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      {/* List Section */}
+      <div className="lg:col-span-2 space-y-6">
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex items-center mb-6">
+            <div className="bg-teal-100 p-2 rounded-lg mr-3">
+              <ListChecks className="w-6 h-6 text-teal-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">字段规则管理</h2>
+              <p className="text-sm text-gray-500">为任意字段 (含导入的自定义列) 设置校验规则，违反的规则会出现在问题列表中。</p>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {rules.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-6">暂无字段规则</p>
+            )}
+            {rules.map(rule => (
+              <div
+                key={rule.id}
+                className="flex items-center justify-between p-4 bg-gray-50 rounded-lg border border-gray-200 group"
+              >
+                <div className="flex-1 min-w-0 mr-4">
+                  <div className="flex items-center">
+                    <span className="px-2 py-0.5 rounded text-xs font-medium bg-teal-100 text-teal-700">
+                      {getRuleFieldLabel(rule.field)}
+                    </span>
+                    <h3 className="ml-2 text-sm font-medium text-gray-900">{FIELD_RULE_KIND_LABELS[rule.kind]}</h3>
+                    <span className={`ml-2 px-2 py-0.5 rounded text-xs font-medium ${SEVERITY_BADGE_CLASSES[rule.severity || 'error']}`}>
+                      {SEVERITY_LABELS[rule.severity || 'error']}
+                    </span>
+                  </div>
+                  {rule.value && (
+                    <p className="text-xs text-gray-500 mt-1 truncate" title={describeFieldRule(rule)}>
+                      {describeFieldRule(rule)}
+                    </p>
+                  )}
+                </div>
+                <button
+                  onClick={() => onRemoveRule(rule.id)}
+                  className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors"
+                >
+                  <Trash2 className="w-5 h-5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Sidebar: Add & Test */}
+      <div className="space-y-6">
+        <div className="bg-white rounded-lg shadow p-6">
+          <h3 className="text-lg font-bold text-gray-900 mb-4">添加新规则</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">字段</label>
+              <select
+                className="w-full rounded-md border-gray-300 shadow-sm border px-3 py-2 focus:ring-teal-500 focus:border-teal-500 bg-white"
+                value={newRule.field}
+                onChange={(e) => setNewRule({ ...newRule, field: e.target.value })}
+              >
+                {fieldOptions.map(field => (
+                  <option key={field} value={field}>{getRuleFieldLabel(field)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">规则类型</label>
+              <select
+                className="w-full rounded-md border-gray-300 shadow-sm border px-3 py-2 focus:ring-teal-500 focus:border-teal-500 bg-white"
+                value={newRule.kind}
+                onChange={(e) => setNewRule({ ...newRule, kind: e.target.value as FieldRuleKind, value: '' })}
+              >
+                {(Object.keys(FIELD_RULE_KIND_LABELS) as FieldRuleKind[]).filter(kind => kind !== 'value-type').map(kind => (
+                  <option key={kind} value={kind}>{FIELD_RULE_KIND_LABELS[kind]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">级别</label>
+              <select
+                className="w-full rounded-md border-gray-300 shadow-sm border px-3 py-2 focus:ring-teal-500 focus:border-teal-500 bg-white"
+                value={newRule.severity}
+                onChange={(e) => setNewRule({ ...newRule, severity: e.target.value as Severity })}
+              >
+                {(Object.keys(SEVERITY_LABELS) as Severity[]).map(severity => (
+                  <option key={severity} value={severity}>{SEVERITY_LABELS[severity]}{severity === 'error' ? ' (阻止导出)' : ''}</option>
+                ))}
+              </select>
+            </div>
+            {newRule.kind === 'pattern' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">规则名称 (可选)</label>
+                <input
+                  type="text"
+                  className="w-full rounded-md border-gray-300 shadow-sm border px-3 py-2 focus:ring-teal-500 focus:border-teal-500 bg-white"
+                  value={newRule.name}
+                  onChange={(e) => setNewRule({ ...newRule, name: e.target.value })}
+                  placeholder="例如：11位手机号"
+                />
+              </div>
+            )}
+            {valueLabel && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{valueLabel}</label>
+                {newRule.kind === 'allowed-values' ? (
+                  <textarea
+                    rows={4}
+                    className="w-full rounded-md border-gray-300 shadow-sm border px-3 py-2 focus:ring-teal-500 focus:border-teal-500 bg-white text-sm"
+                    value={newRule.value}
+                    onChange={(e) => setNewRule({ ...newRule, value: e.target.value })}
+                    placeholder={'例如：\n市总工会\n各基层工会'}
+                  />
+                ) : (
+                  <input
+                    type={newRule.kind === 'max-length' ? 'number' : 'text'}
+                    min={newRule.kind === 'max-length' ? 1 : undefined}
+                    className={`w-full rounded-md border-gray-300 shadow-sm border px-3 py-2 focus:ring-teal-500 focus:border-teal-500 bg-white ${newRule.kind === 'pattern' ? 'font-mono text-sm' : ''}`}
+                    value={newRule.value}
+                    onChange={(e) => setNewRule({ ...newRule, value: e.target.value })}
+                    placeholder={newRule.kind === 'pattern' ? '例如：^1[3-9]\\d{9}$' : '例如：30'}
+                  />
+                )}
+              </div>
+            )}
+            <button
+              type="submit"
+              className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-teal-600 hover:bg-teal-700 transition-colors"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              添加规则
+            </button>
+          </form>
+        </div>
+
+        {/* Test Tool */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex items-center mb-4">
+            <PlayCircle className="w-5 h-5 text-gray-400 mr-2" />
+            <h3 className="text-lg font-bold text-gray-900">校验测试</h3>
+          </div>
+          <div className="space-y-4">
+            <input
+              type="text"
+              className="w-full rounded-md border-gray-300 shadow-sm border px-3 py-2 focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+              value={testValue}
+              onChange={(e) => setTestValue(e.target.value)}
+              placeholder={`输入“${getRuleFieldLabel(newRule.field)}”的值测试...`}
+            />
+            {testResults.length === 0 ? (
+              <p className="text-xs text-gray-500">“{getRuleFieldLabel(newRule.field)}”暂无规则。</p>
+            ) : (
+              <div className="space-y-2">
+                {testResults.map(({ rule, message }) => (
+                  <div key={rule.id} className={`flex flex-col p-2 rounded-md text-sm ${message ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+                    <div className="flex items-center">
+                      {message ? <XCircle className="w-4 h-4 mr-2 shrink-0" /> : <CheckCircle className="w-4 h-4 mr-2 shrink-0" />}
+                      <span className="truncate">{describeFieldRule(rule)}</span>
+                    </div>
+                    {message && <span className="text-xs mt-1 ml-6 opacity-80">{message}</span>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
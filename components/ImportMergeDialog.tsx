@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { AppEvent, ImportMode, MergeResult } from '../types.ts';
+import { GitMerge, X, Check, Plus, RefreshCw, Trash2, Equal } from 'lucide-react';
+import { mergeImportedEvents } from '../importUtils.ts';
+
+interface ImportMergeDialogProps {
+  existing: AppEvent[];
+  incoming: AppEvent[];
+  onConfirm: (result: MergeResult) => void;
+  onCancel: () => void;
+}
+
+const MODE_OPTIONS: { mode: ImportMode, label: string, description: string }[] = [
+  { mode: 'update-name', label: '按名称更新', description: '按活动名称匹配已有数据，保留未变行的修改与忽略记录；只删除同一文件中已不存在的行' },
+  { mode: 'update-serial', label: '按序号更新', description: '按序号匹配已有数据，保留未变行的修改与忽略记录；只删除同一文件中已不存在的行' },
+  { mode: 'append', label: '追加', description: '保留现有数据，将新文件内容添加到末尾' },
+  { mode: 'replace', label: '替换', description: '删除现有数据，按新文件内容重新导入' },
+];
+
+type SummaryKey = 'added' | 'updated' | 'removed' | 'unchanged';
+
+const SUMMARY_ITEMS: { key: SummaryKey, label: string, icon: React.ElementType, className: string }[] = [
+  { key: 'added', label: '新增', icon: Plus, className: 'text-green-700 bg-green-50 border-green-200' },
+  { key: 'updated', label: '更新', icon: RefreshCw, className: 'text-blue-700 bg-blue-50 border-blue-200' },
+  { key: 'removed', label: '删除', icon: Trash2, className: 'text-red-700 bg-red-50 border-red-200' },
+  { key: 'unchanged', label: '未变', icon: Equal, className: 'text-gray-700 bg-gray-50 border-gray-200' },
+];
+
+export const ImportMergeDialog: React.FC<ImportMergeDialogProps> = ({ existing, incoming, onConfirm, onCancel }) => {
+  const [mode, setMode] = useState<ImportMode>('update-name');
+  const [expanded, setExpanded] = useState<SummaryKey | null>(null);
+
+  const result = mergeImportedEvents(existing, incoming, mode);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center">
+            <div className="bg-blue-100 p-2 rounded-lg mr-3">
+              <GitMerge className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-gray-900">合并导入数据</h2>
+              <p className="text-xs text-gray-500">当前已有 {existing.length} 条数据，新文件包含 {incoming.length} 条。</p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100" title="取消导入">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 overflow-y-auto space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {MODE_OPTIONS.map(opt => (
+              <label
+                key={opt.mode}
+                className={`p-3 rounded-md border cursor-pointer transition-colors ${mode === opt.mode ? 'border-blue-400 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'}`}
+              >
+                <div className="flex items-center text-sm font-medium text-gray-900">
+                  <input
+                    type="radio"
+                    name="import-mode"
+                    className="mr-2"
+                    checked={mode === opt.mode}
+                    onChange={() => { setMode(opt.mode); setExpanded(null); }}
+                  />
+                  {opt.label}
+                </div>
+                <p className="text-xs text-gray-500 mt-1 ml-5">{opt.description}</p>
+              </label>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-4 gap-2">
+            {SUMMARY_ITEMS.map(item => {
+              const Icon = item.icon;
+              return (
+                <button
+                  key={item.key}
+                  onClick={() => setExpanded(expanded === item.key ? null : item.key)}
+                  disabled={result[item.key].length === 0}
+                  className={`p-3 rounded-md border text-center transition-shadow disabled:opacity-50 ${item.className} ${expanded === item.key ? 'ring-2 ring-offset-1 ring-blue-300' : ''}`}
+                >
+                  <Icon className="w-4 h-4 mx-auto mb-1" />
+                  <div className="text-lg font-bold">{result[item.key].length}</div>
+                  <div className="text-xs">{item.label}</div>
+                </button>
+              );
+            })}
+          </div>
+
+          {expanded && (
+            <div className="border border-gray-200 rounded-md divide-y divide-gray-100 max-h-60 overflow-y-auto">
+              {result[expanded].map(evt => (
+                <div key={evt.id} className="flex items-center justify-between px-3 py-2 text-xs">
+                  <span className="text-gray-400 w-10 shrink-0">#{evt.serialNo}</span>
+                  <span className="flex-1 truncate font-medium text-gray-800" title={evt.name}>{evt.name}</span>
+                  <span className="text-gray-500 truncate ml-2 max-w-[35%]" title={`${evt.time} ${evt.location}`}>{evt.time} · {evt.location}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-gray-200 bg-gray-50 rounded-b-lg">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-white text-gray-700 rounded-md text-sm font-medium border border-gray-300 hover:bg-gray-50"
+          >
+            取消
+          </button>
+          <button
+            onClick={() => onConfirm(result)}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+          >
+            <Check className="w-4 h-4 mr-1.5" />
+            确认导入
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
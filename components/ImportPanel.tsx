@@ -1,56 +1,169 @@
-import React, { useRef } from 'react';
-import { TimeFormatItem } from '../types.ts';
-import { Upload, FileSpreadsheet, Info, AlertTriangle } from 'lucide-react';
-import * as XLSX from 'xlsx';
+import React, { useEffect, useRef, useState } from 'react';
+import { TimeFormatItem, ImportSheet, TaskProgress } from '../types.ts';
+import { Upload, FileSpreadsheet, Info, AlertTriangle, Layers, Languages, ClipboardPaste } from 'lucide-react';
+import { TextEncoding, TEXT_ENCODING_LABELS, detectTextEncoding, decodeText, parseDelimitedText, extractDocxTables, extractHtmlTables, getSheetLabel } from '../importUtils.ts';
+import { BackgroundTask, parseWorkbookInBackground } from '../backgroundTasks.ts';
+import { TaskProgressBar } from './TaskProgressBar.tsx';
 
 interface ImportPanelProps {
   timeFormats: TimeFormatItem[];
-  onImportExcel: (data: any[]) => void;
+  onImportExcel: (sheets: ImportSheet[]) => void;
 }
 
+// Count rows that have at least one non-empty cell
+const countRows = (rows: any[][]) =>
+  rows.filter(row => Array.isArray(row) && row.some(cell => String(cell ?? '').trim() !== '')).length;
+
+// Texts of the first non-empty row, to tell sheets or Word tables apart
+const firstRowPreview = (rows: any[][]) => {
+  const row = rows.find(r => Array.isArray(r) && r.some(cell => String(cell ?? '').trim() !== '')) || [];
+  return row.map(cell => String(cell ?? '').trim()).filter(Boolean).join(' / ');
+};
+
+// Sheets from different files may share names, so selection is keyed by file and sheet
+const sheetKey = (sheet: ImportSheet) => `${sheet.file || ''}/${sheet.name}`;
+
 export const ImportPanel: React.FC<ImportPanelProps> = ({ timeFormats, onImportExcel }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Sheets of a multi-sheet workbook (or several files) waiting for the user to pick which ones to import
+  const [pendingSheets, setPendingSheets] = useState<ImportSheet[] | null>(null);
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([]);
+  // Text table whose encoding could not be detected reliably, waiting for the user to confirm it
+  const [pendingText, setPendingText] = useState<{ fileName: string, bytes: Uint8Array, encoding: TextEncoding } | null>(null);
+  // Answers the open encoding question; kept outside state so unmounting can still settle it
+  const answerTextEncoding = useRef<((encoding: TextEncoding | null) => void) | null>(null);
+  // Workbook being parsed in the background worker
+  const [parsing, setParsing] = useState<{ label: string, progress: TaskProgress } | null>(null);
+  const parseTask = useRef<BackgroundTask<ImportSheet[]> | null>(null);
+  const parseCancelled = useRef(false);
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  // Collapsing the panel unmounts it: end a running import instead of leaving it waiting for an
+  // answer or a parse nobody can see
+  useEffect(() => () => {
+    parseCancelled.current = true;
+    parseTask.current?.cancel();
+    answerTextEncoding.current?.(null);
+  }, []);
+
+  // Import a single sheet directly, or let the user choose when there are several
+  const offerSheets = (sheets: ImportSheet[]) => {
+    const nonEmpty = sheets.filter(sheet => countRows(sheet.rows) > 0);
+    if (nonEmpty.length === 1) {
+      onImportExcel(nonEmpty);
+    } else if (nonEmpty.length > 1) {
+      setPendingSheets(nonEmpty);
+      setSelectedSheets(nonEmpty.map(sheetKey));
+    } else {
+      alert('文件中没有可导入的数据。');
+    }
+  };
+
+  const isTextTable = (fileName: string) => /\.(csv|tsv|txt)$/i.test(fileName);
+
+  // Resolves with the encoding the user picked, or null when they skip the file
+  const askTextEncoding = (fileName: string, bytes: Uint8Array, encoding: TextEncoding) =>
+    new Promise<TextEncoding | null>(resolve => {
+      answerTextEncoding.current = answer => {
+        answerTextEncoding.current = null;
+        resolve(answer);
+      };
+      setPendingText({ fileName, bytes, encoding });
+    });
+
+  const readTextTable = async (fileName: string, bytes: Uint8Array): Promise<ImportSheet[]> => {
+    const guess = detectTextEncoding(bytes);
+    const encoding = guess.confident ? guess.encoding : await askTextEncoding(fileName, bytes, guess.encoding);
+    if (!encoding) return [];
+    const delimiter = /\.tsv$/i.test(fileName) ? '\t' : /\.csv$/i.test(fileName) ? ',' : undefined;
+    return [{ name: fileName, file: fileName, rows: parseDelimitedText(decodeText(bytes, encoding), delimiter) }];
+  };
 
-    const reader = new FileReader();
-    reader.onload = (evt) => {
+  // Resolves with null when the user cancels parsing
+  const readFileSheets = async (file: File, label: string): Promise<ImportSheet[] | null> => {
+    const arrayBuffer = await file.arrayBuffer();
+    if (isTextTable(file.name)) return readTextTable(file.name, new Uint8Array(arrayBuffer));
+    if (/\.docx$/i.test(file.name)) {
+      // Word plans keep the activities in tables; each table is offered like a worksheet
+      return extractDocxTables(new Uint8Array(arrayBuffer)).map(table => ({ ...table, file: file.name }));
+    }
+    // Large workbooks take seconds to read, so this happens off the main thread
+    setParsing({ label, progress: { done: 0, total: 0 } });
+    const task = parseWorkbookInBackground(file.name, arrayBuffer, progress => setParsing({ label, progress }));
+    parseTask.current = task;
+    try {
+      return await task.promise;
+    } finally {
+      parseTask.current = null;
+      setParsing(null);
+    }
+  };
+
+  const cancelParsing = () => {
+    parseCancelled.current = true;
+    parseTask.current?.cancel();
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    // Reset input so the same files can be chosen again
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (files.length === 0) return;
+
+    const sheets: ImportSheet[] = [];
+    const failed: string[] = [];
+    parseCancelled.current = false;
+    // One file at a time, so encoding questions are asked in order
+    for (const [i, file] of files.entries()) {
+      const label = files.length > 1 ? `正在解析 ${file.name} (${i + 1}/${files.length})` : `正在解析 ${file.name}`;
       try {
-        const arrayBuffer = evt.target?.result;
-        // Use readAsArrayBuffer for better encoding handling
-        const wb = XLSX.read(arrayBuffer, { type: 'array', cellDates: true });
-        const wsname = wb.SheetNames[0];
-        const ws = wb.Sheets[wsname];
-        const data = XLSX.utils.sheet_to_json(ws, { header: 1 });
-        
-        // Pre-process data: Convert Date objects to "M月D日" string format
-        const processedData = (data as any[]).map(row => {
-          if (Array.isArray(row)) {
-            return row.map(cell => {
-              if (cell instanceof Date && !isNaN(cell.getTime())) {
-                // Adjust for local timezone interpretation if needed
-                return `${cell.getMonth() + 1}月${cell.getDate()}日`;
-              }
-              return cell;
-            });
-          }
-          return row;
-        });
-
-        if (processedData.length > 0) {
-           onImportExcel(processedData);
-        }
+        const fileSheets = await readFileSheets(file, label);
+        // Cancelling stops the whole batch
+        if (!fileSheets || parseCancelled.current) return;
+        sheets.push(...fileSheets);
       } catch (error) {
-        console.error("Error reading excel", error);
-        alert("Excel 解析失败，请检查文件格式。");
+        console.error(`Error reading file ${file.name}`, error);
+        failed.push(file.name);
       }
-      
-      // Reset input
-      if (fileInputRef.current) fileInputRef.current.value = '';
-    };
-    reader.readAsArrayBuffer(file);
+    }
+
+    if (failed.length > 0) {
+      alert(`以下文件解析失败，请检查文件格式：\n${failed.join('\n')}`);
+    }
+    if (sheets.length > 0 || failed.length === 0) offerSheets(sheets);
+  };
+
+  // Tables copied from spreadsheets and web pages arrive as HTML; plain copies as tab-separated text
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    e.preventDefault();
+    const html = e.clipboardData.getData('text/html');
+    const tables = html && /<table/i.test(html) ? extractHtmlTables(html) : [];
+    if (tables.length > 0) {
+      offerSheets(tables);
+      return;
+    }
+    const text = e.clipboardData.getData('text/plain');
+    if (text.trim()) {
+      offerSheets([{ name: '粘贴内容', rows: parseDelimitedText(text, '\t') }]);
+    } else {
+      alert('剪贴板中没有可识别的表格内容。');
+    }
+  };
+
+  const resolveTextEncoding = (encoding: TextEncoding | null) => {
+    setPendingText(null);
+    answerTextEncoding.current?.(encoding);
+  };
+
+  const toggleSheet = (key: string) => {
+    setSelectedSheets(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+
+  const confirmSheets = () => {
+    if (!pendingSheets) return;
+    const sheets = pendingSheets.filter(s => selectedSheets.includes(sheetKey(s)));
+    if (sheets.length === 0) return;
+    setPendingSheets(null);
+    onImportExcel(sheets);
   };
 
   return (
@@ -66,32 +179,132 @@ export const ImportPanel: React.FC<ImportPanelProps> = ({ timeFormats, onImportE
           
           <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-6 text-sm text-gray-600">
             <p className="font-semibold mb-2 flex items-center"><Info className="w-4 h-4 mr-1"/> 导入说明</p>
-            <p className="mb-2">请上传 .xlsx 或 .xls 文件。系统将尝试自动识别前三列为：序号、名称、时间、地点。</p>
-            <p>如果未包含序号列，系统将自动生成。</p>
+            <p className="mb-2">请上传 .xlsx、.xls、.csv/.tsv 文件或含表格的 Word (.docx) 文档。系统将尝试自动识别前三列为：序号、名称、时间、地点，首次遇到的表头格式需确认列映射。</p>
+            <p className="mb-2">如果未包含序号列，系统将自动生成。开始日期与结束日期分为两列时，将合并为“5月1日-5月3日”的形式。</p>
+            <p className="mb-2">工作簿包含多个工作表或 Word 文档包含多个表格时，可选择导入其中一个、多个或全部。</p>
+            <p>可一次选择多个文件（如各部门分别提交的计划表）合并导入，每条活动都会记录来源文件与行号。</p>
           </div>
 
-          <div className="flex justify-center px-6 pt-10 pb-10 border-2 border-gray-300 border-dashed rounded-md hover:border-green-500 transition-colors cursor-pointer bg-gray-50 hover:bg-green-50" 
-               onClick={() => fileInputRef.current?.click()}>
-            <div className="space-y-2 text-center">
-              <Upload className="mx-auto h-12 w-12 text-gray-400" />
-              <div className="flex text-sm text-gray-600 justify-center">
-                <label htmlFor="file-upload" className="relative cursor-pointer rounded-md font-medium text-green-600 hover:text-green-500 focus-within:outline-none">
-                  <span>点击上传文件</span>
-                </label>
-                <p className="pl-1">或拖拽至此</p>
+          {parsing ? (
+            <TaskProgressBar label={parsing.label} progress={parsing.progress} onCancel={cancelParsing} />
+          ) : pendingText ? (
+            <div className="border border-amber-200 rounded-md bg-amber-50 p-4">
+              <p className="text-sm font-semibold text-amber-800 flex items-center mb-1"><Languages className="w-4 h-4 mr-1.5"/>无法确定文件编码</p>
+              <p className="text-xs text-amber-700 mb-3">文件「{pendingText.fileName}」：请选择编码，直到下方预览中的中文显示正常。</p>
+              <select
+                value={pendingText.encoding}
+                onChange={(e) => setPendingText({ ...pendingText, encoding: e.target.value as TextEncoding })}
+                className="w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm bg-white mb-3"
+              >
+                {(Object.keys(TEXT_ENCODING_LABELS) as TextEncoding[]).map(enc => (
+                  <option key={enc} value={enc}>{TEXT_ENCODING_LABELS[enc]}</option>
+                ))}
+              </select>
+              <pre className="text-xs bg-white border border-gray-200 rounded p-2 mb-4 max-h-40 overflow-auto whitespace-pre-wrap text-gray-700">
+                {decodeText(pendingText.bytes.subarray(0, 2048), pendingText.encoding).split(/\r?\n/).slice(0, 6).join('\n')}
+              </pre>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => resolveTextEncoding(pendingText.encoding)}
+                  className="flex-1 px-4 py-2 bg-green-600 text-white rounded-md text-sm font-medium hover:bg-green-700"
+                >
+                  使用此编码导入
+                </button>
+                <button
+                  onClick={() => resolveTextEncoding(null)}
+                  className="px-4 py-2 bg-white text-gray-700 rounded-md text-sm font-medium border border-gray-300 hover:bg-gray-50"
+                >
+                  跳过此文件
+                </button>
               </div>
-              <p className="text-xs text-gray-500">支持 XLSX, XLS 格式</p>
             </div>
-            <input 
-              ref={fileInputRef}
-              id="file-upload" 
-              name="file-upload" 
-              type="file" 
-              className="sr-only" 
-              accept=".xlsx, .xls"
-              onChange={handleFileUpload}
-            />
-          </div>
+          ) : pendingSheets ? (
+            <div className="border border-green-200 rounded-md bg-green-50 p-4">
+              <div className="flex items-center justify-between mb-3">
+                <p className="text-sm font-semibold text-green-800 flex items-center"><Layers className="w-4 h-4 mr-1.5"/>选择要导入的工作表 / 表格</p>
+                <button
+                  onClick={() => setSelectedSheets(selectedSheets.length === pendingSheets.length ? [] : pendingSheets.map(sheetKey))}
+                  className="text-xs text-green-700 underline decoration-green-300 underline-offset-2"
+                >
+                  {selectedSheets.length === pendingSheets.length ? '全不选' : '全选'}
+                </button>
+              </div>
+              <div className="space-y-2 max-h-60 overflow-y-auto mb-4">
+                {pendingSheets.map(sheet => (
+                  <label key={sheetKey(sheet)} className="flex items-center justify-between bg-white px-3 py-2 rounded border border-gray-200 text-sm cursor-pointer hover:border-green-300">
+                    <span className="flex items-center min-w-0">
+                      <input
+                        type="checkbox"
+                        className="mr-2"
+                        checked={selectedSheets.includes(sheetKey(sheet))}
+                        onChange={() => toggleSheet(sheetKey(sheet))}
+                      />
+                      <span className="truncate text-gray-800" title={getSheetLabel(sheet)}>{getSheetLabel(sheet)}</span>
+                      <span className="truncate text-xs text-gray-400 ml-2" title={firstRowPreview(sheet.rows)}>{firstRowPreview(sheet.rows)}</span>
+                    </span>
+                    <span className="text-xs text-gray-500 shrink-0 ml-2">{countRows(sheet.rows)} 行</span>
+                  </label>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={confirmSheets}
+                  disabled={selectedSheets.length === 0}
+                  className="flex-1 px-4 py-2 bg-green-600 text-white rounded-md text-sm font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  导入所选 ({selectedSheets.length})
+                </button>
+                <button
+                  onClick={() => setPendingSheets(null)}
+                  className="px-4 py-2 bg-white text-gray-700 rounded-md text-sm font-medium border border-gray-300 hover:bg-gray-50"
+                >
+                  取消
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex justify-center px-6 pt-10 pb-10 border-2 border-gray-300 border-dashed rounded-md hover:border-green-500 transition-colors cursor-pointer bg-gray-50 hover:bg-green-50" 
+                 onClick={() => fileInputRef.current?.click()}>
+              <div className="space-y-2 text-center">
+                <Upload className="mx-auto h-12 w-12 text-gray-400" />
+                <div className="flex text-sm text-gray-600 justify-center">
+                  <label htmlFor="file-upload" className="relative cursor-pointer rounded-md font-medium text-green-600 hover:text-green-500 focus-within:outline-none">
+                    <span>点击上传文件（可多选）</span>
+                  </label>
+                  <p className="pl-1">或拖拽至此</p>
+                </div>
+                <p className="text-xs text-gray-500">支持 XLSX, XLS, CSV, TSV, DOCX 格式（自动识别 UTF-8 / GBK / UTF-16 编码）</p>
+              </div>
+              <input 
+                ref={fileInputRef}
+                id="file-upload" 
+                name="file-upload" 
+                type="file" 
+                className="sr-only" 
+                accept=".xlsx, .xls, .csv, .tsv, .txt, .docx"
+                multiple
+                onChange={handleFileUpload}
+              />
+            </div>
+          )}
+
+          {!parsing && !pendingText && !pendingSheets && (
+            <div className="mt-4">
+              <label htmlFor="paste-import" className="flex items-center text-sm font-medium text-gray-700 mb-1.5">
+                <ClipboardPaste className="w-4 h-4 mr-1.5 text-gray-500" />
+                粘贴导入
+              </label>
+              <textarea
+                id="paste-import"
+                rows={2}
+                value=""
+                onChange={() => {}}
+                onPaste={handlePaste}
+                placeholder="从 Excel、网页或公众号编辑器复制表格后，点击此处按 Ctrl+V 粘贴"
+                className="w-full rounded-md border border-gray-300 border-dashed px-3 py-2 text-sm bg-gray-50 focus:bg-white focus:border-green-500 focus:ring-green-500 resize-none"
+              />
+            </div>
+          )}
       </div>
 
       {/* Format Cheat Sheet */}
@@ -111,7 +324,7 @@ export const ImportPanel: React.FC<ImportPanelProps> = ({ timeFormats, onImportE
                         <span className="font-mono">{fmt.name}</span>
                     </li>
                 ))}
-                <li className="pt-2 border-t border-yellow-200 mt-2 text-yellow-600 italic">注：支持括号内的备注信息，例如 "1月1日(备注)"</li>
+                <li className="pt-2 border-t border-yellow-200 mt-2 text-yellow-600 italic">注：支持括号内的备注信息，例如 "1月1日(备注)"；标注的周X/星期X 会与实际星期核对</li>
              </ul>
          </div>
       </div>
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { ImportRowReport } from '../types.ts';
+import { ClipboardList, X, Check } from 'lucide-react';
+import { SKIP_REASON_LABELS, formatEventSource } from '../importUtils.ts';
+
+interface ImportReportDialogProps {
+  reports: ImportRowReport[];
+  onConfirm: (forcedKeys: string[]) => void;
+  onCancel: () => void;
+}
+
+type ReportFilter = 'all' | 'included' | 'skipped';
+
+export const ImportReportDialog: React.FC<ImportReportDialogProps> = ({ reports, onConfirm, onCancel }) => {
+  const [filter, setFilter] = useState<ReportFilter>('all');
+  const [hideEmpty, setHideEmpty] = useState(true);
+  const [forcedKeys, setForcedKeys] = useState<string[]>([]);
+
+  const isIncluded = (r: ImportRowReport) => !r.skipReason || forcedKeys.includes(r.key);
+  const includedCount = reports.filter(isIncluded).length;
+  const skippedCount = reports.filter(r => r.skipReason && r.skipReason !== 'empty').length - forcedKeys.length;
+  const emptyCount = reports.filter(r => r.skipReason === 'empty').length;
+  const showSheet = new Set(reports.map(r => `${r.file || ''}/${r.sheet}`)).size > 1;
+
+  const visible = reports.filter(r => {
+    if (hideEmpty && r.skipReason === 'empty') return false;
+    if (filter === 'included') return isIncluded(r);
+    if (filter === 'skipped') return !!r.skipReason;
+    return true;
+  });
+
+  const toggleForced = (key: string) => {
+    setForcedKeys(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center">
+            <div className="bg-green-100 p-2 rounded-lg mr-3">
+              <ClipboardList className="w-5 h-5 text-green-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-gray-900">导入预览</h2>
+              <p className="text-xs text-gray-500">
+                将导入 <span className="font-semibold text-green-700">{includedCount}</span> 行，
+                跳过 <span className="font-semibold text-orange-600">{skippedCount}</span> 行
+                {emptyCount > 0 && `，另有 ${emptyCount} 个空行`}。可勾选被跳过的行强制导入。
+              </p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100" title="取消导入">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-2 border-b border-gray-100">
+          <div className="flex gap-1">
+            {([['all', '全部'], ['included', '将导入'], ['skipped', '已跳过']] as [ReportFilter, string][]).map(([key, label]) => (
+              <button
+                key={key}
+                onClick={() => setFilter(key)}
+                className={`px-3 py-1 text-xs rounded-full border transition-colors ${filter === key ? 'bg-green-600 text-white border-green-600' : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center text-xs text-gray-600 cursor-pointer">
+            <input type="checkbox" className="mr-1.5" checked={hideEmpty} onChange={(e) => setHideEmpty(e.target.checked)} />
+            隐藏空行
+          </label>
+        </div>
+
+        <div className="overflow-auto flex-1">
+          <table className="min-w-full text-xs">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr className="text-left text-gray-500">
+                <th className="px-3 py-2 font-medium w-8"></th>
+                <th className="px-3 py-2 font-medium whitespace-nowrap">来源</th>
+                <th className="px-3 py-2 font-medium whitespace-nowrap">结果</th>
+                <th className="px-3 py-2 font-medium">序号</th>
+                <th className="px-3 py-2 font-medium">活动名称</th>
+                <th className="px-3 py-2 font-medium">时间</th>
+                <th className="px-3 py-2 font-medium">地点</th>
+                <th className="px-3 py-2 font-medium">原始内容</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visible.map(r => {
+                const included = isIncluded(r);
+                const canForce = !!r.skipReason && r.skipReason !== 'empty';
+                const rawText = r.raw.filter(Boolean).join(' | ');
+                return (
+                  <tr key={r.key} className={included ? '' : 'bg-gray-50 text-gray-400'}>
+                    <td className="px-3 py-1.5">
+                      {canForce && (
+                        <input
+                          type="checkbox"
+                          checked={forcedKeys.includes(r.key)}
+                          onChange={() => toggleForced(r.key)}
+                          title="强制导入此行"
+                        />
+                      )}
+                    </td>
+                    <td className="px-3 py-1.5 whitespace-nowrap text-gray-500">
+                      {showSheet ? formatEventSource(r) : `第 ${r.row} 行`}
+                    </td>
+                    <td className="px-3 py-1.5 whitespace-nowrap">
+                      {!r.skipReason ? (
+                        <span className="text-green-700">导入</span>
+                      ) : included ? (
+                        <span className="text-blue-700">强制导入</span>
+                      ) : (
+                        <span className="text-orange-600">跳过: {SKIP_REASON_LABELS[r.skipReason]}</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-1.5">{r.values.serialNo}</td>
+                    <td className="px-3 py-1.5 max-w-[200px] truncate" title={r.values.name}>{r.values.name}</td>
+                    <td className="px-3 py-1.5 max-w-[140px] truncate" title={r.values.time}>{r.values.time}</td>
+                    <td className="px-3 py-1.5 max-w-[140px] truncate" title={r.values.location}>{r.values.location}</td>
+                    <td className="px-3 py-1.5 max-w-[220px] truncate text-gray-400" title={rawText}>{rawText}</td>
+                  </tr>
+                );
+              })}
+              {visible.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="px-3 py-8 text-center text-gray-400">没有符合条件的行</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-gray-200 bg-gray-50 rounded-b-lg">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-white text-gray-700 rounded-md text-sm font-medium border border-gray-300 hover:bg-gray-50"
+          >
+            取消
+          </button>
+          <button
+            onClick={() => onConfirm(forcedKeys)}
+            disabled={includedCount === 0}
+            className="flex items-center px-4 py-2 bg-green-600 text-white rounded-md text-sm font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Check className="w-4 h-4 mr-1.5" />
+            确认导入 ({includedCount})
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
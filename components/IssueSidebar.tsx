@@ -1,18 +1,52 @@
 import React, { useState, useEffect } from 'react';
-import { AppEvent, AddressLibraryItem, SelectionState } from '../types.ts';
-import { ListOrdered, MapPin, Clock, Check, Plus, AlertCircle, Wand2, EyeOff, RotateCcw, Lightbulb, FilePlus } from 'lucide-react';
-import { getRecommendedTime, getRecommendedLocation, generateRegexFromTime } from '../constants.ts';
+import { AppEvent, AddressLibraryItem, SelectionState, IssueType, VenueConflict, DuplicateGroup, FieldRule, RuleViolation, Severity } from '../types.ts';
+import { ListOrdered, MapPin, Clock, Check, Plus, AlertCircle, Wand2, EyeOff, RotateCcw, Lightbulb, FilePlus, CalendarX, Copy, Combine, ListChecks } from 'lucide-react';
+import { getRecommendedTime, getRecommendedLocation, generateRegexFromTime, SEVERITY_LABELS, SEVERITY_RANK, SEVERITY_BADGE_CLASSES, worstSeverity } from '../constants.ts';
+import { formatEventSource, getSourceFile } from '../importUtils.ts';
+import { getRuleFieldLabel, describeFieldRule } from '../fieldRules.ts';
+import { getDuplicatePairKeys } from '../duplicateDetection.ts';
+import { lintPattern } from '../regexSafety.ts';
+
+// Text, box and highlight colours of an issue by severity
+const SEVERITY_STYLES: Record<Severity, { text: string, box: string, ring: string }> = {
+  error: { text: 'text-red-500', box: 'text-red-600 bg-red-50 border-red-100 hover:bg-red-100 hover:border-red-200', ring: 'ring-red-400 bg-red-50' },
+  warning: { text: 'text-amber-600', box: 'text-amber-700 bg-amber-50 border-amber-100 hover:bg-amber-100 hover:border-amber-200', ring: 'ring-amber-400 bg-amber-50' },
+  info: { text: 'text-blue-500', box: 'text-blue-700 bg-blue-50 border-blue-100 hover:bg-blue-100 hover:border-blue-200', ring: 'ring-blue-400 bg-blue-50' },
+};
+
+const SeverityBadge: React.FC<{ severity: Severity }> = ({ severity }) => (
+  <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium shrink-0 ${SEVERITY_BADGE_CLASSES[severity]}`}>{SEVERITY_LABELS[severity]}</span>
+);
+
+// Pending counts per severity, most serious first, e.g. "错误 3 · 警告 2"
+const summarizeSeverities = (severities: Severity[]) =>
+  (Object.keys(SEVERITY_LABELS) as Severity[])
+    .map(s => ({ s, n: severities.filter(x => x === s).length }))
+    .filter(({ n }) => n > 0)
+    .map(({ s, n }) => `${SEVERITY_LABELS[s]} ${n}`)
+    .join(' · ');
 
 interface IssueSidebarProps {
   events: AppEvent[];
   locations: AddressLibraryItem[];
+  conflicts?: VenueConflict[];
+  duplicates?: DuplicateGroup[];
+  fieldRules?: FieldRule[];
+  sourceFilter?: string; // Only show issues of events imported from this file
   onFixSerial: () => void;
   onAddLocationToLibrary: (name: string) => void;
   onAddFormatRule: (name: string, pattern: string) => void;
   onUpdateEventTime: (id: string, newTime: string) => void;
   onUpdateEventLocation: (id: string, newLocation: string) => void;
-  onIgnoreError: (id: string, type: 'serial' | 'time' | 'location') => void;
-  onRestoreError: (id: string, type: 'serial' | 'time' | 'location') => void;
+  onIgnoreError: (id: string, type: IssueType) => void;
+  onRestoreError: (id: string, type: IssueType) => void;
+  ignoredConflictKeys?: string[]; // VenueConflict keys
+  onIgnoreConflict?: (key: string) => void;
+  onRestoreConflict?: (key: string) => void;
+  ignoredDuplicatePairs?: string[]; // See getDuplicatePairKeys
+  onIgnoreDuplicates?: (ids: string[]) => void;
+  onRestoreDuplicates?: (ids: string[]) => void;
+  onMergeDuplicates?: (ids: string[]) => void;
   selection?: SelectionState | null;
   onSelectIssue?: (id: string, source: 'sidebar', field?: 'time' | 'location' | 'serial') => void;
 }
@@ -20,6 +54,10 @@ interface IssueSidebarProps {
 export const IssueSidebar: React.FC<IssueSidebarProps> = ({ 
   events, 
   locations,
+  conflicts = [],
+  duplicates = [],
+  fieldRules = [],
+  sourceFilter = '',
   onFixSerial, 
   onAddLocationToLibrary,
   onAddFormatRule,
@@ -27,6 +65,13 @@ export const IssueSidebar: React.FC<IssueSidebarProps> = ({
   onUpdateEventLocation,
   onIgnoreError,
   onRestoreError,
+  ignoredConflictKeys = [],
+  onIgnoreConflict,
+  onRestoreConflict,
+  ignoredDuplicatePairs = [],
+  onIgnoreDuplicates,
+  onRestoreDuplicates,
+  onMergeDuplicates,
   selection,
   onSelectIssue
 }) => {
@@ -36,35 +81,87 @@ export const IssueSidebar: React.FC<IssueSidebarProps> = ({
   const [highlightId, setHighlightId] = useState<string | null>(null);
 
   // --- Filtering Logic ---
+
+  // Serial numbers are checked against the full list; the source filter only narrows what is shown
+  const inSource = (e: AppEvent) => !sourceFilter || getSourceFile(e) === sourceFilter;
+  const shownEvents = sourceFilter ? events.filter(inSource) : events;
+  // Events whose serial does not match their position, found in one pass over the full list
+  const wrongSerialIds = new Set<string>(events.filter((e, i) => e.serialNo !== String(i + 1)).map(e => e.id));
   
   // Pending Issues
-  const pendingSerialIssues = events.filter(e => e.serialNo !== String(events.indexOf(e) + 1) && !e.ignoredErrors?.includes('serial'));
-  const pendingTimeIssues = events.filter(e => !e.isTimeValid && !e.ignoredErrors?.includes('time'));
-  const pendingLocationIssues = events.filter(e => !e.isLocationValid && !e.ignoredErrors?.includes('location'));
+  const pendingSerialIssues = shownEvents.filter(e => wrongSerialIds.has(e.id) && !e.ignoredErrors?.includes('serial'));
+  const pendingTimeIssues = shownEvents
+    .filter(e => !e.isTimeValid && !e.ignoredErrors?.includes('time'))
+    .sort((a, b) => SEVERITY_RANK[a.timeSeverity || 'error'] - SEVERITY_RANK[b.timeSeverity || 'error']);
+  const pendingLocationIssues = shownEvents.filter(e => !e.isLocationValid && !e.ignoredErrors?.includes('location'));
+  const pendingLocationGroups = new Map<string, AppEvent[]>();
+  pendingLocationIssues.forEach(e => {
+    if (!pendingLocationGroups.has(e.location)) pendingLocationGroups.set(e.location, []);
+    pendingLocationGroups.get(e.location)!.push(e);
+  });
   
+  // A conflict is shown when either of its events is; ignoring it leaves the events' other conflicts pending
+  const eventById = new Map<string, AppEvent>(events.map(e => [e.id, e]));
+  const ignoredConflictSet = new Set(ignoredConflictKeys);
+  const isConflictIgnored = (c: VenueConflict) => ignoredConflictSet.has(c.key);
+  const shownConflicts = conflicts.filter(c => !sourceFilter || [c.firstId, c.secondId].some(id => inSource(eventById.get(id))));
+  const pendingConflicts = shownConflicts.filter(c => !isConflictIgnored(c));
+  const ignoredConflicts = shownConflicts.filter(isConflictIgnored);
+
+  // A group is ignored while every pair in it is, so a new member brings it back
+  const ignoredPairSet = new Set(ignoredDuplicatePairs);
+  const isDuplicateIgnored = (g: DuplicateGroup) => getDuplicatePairKeys(g.ids).every(k => ignoredPairSet.has(k));
+  const shownDuplicates = duplicates.filter(g => !sourceFilter || g.ids.some(id => inSource(eventById.get(id))));
+  const pendingDuplicates = shownDuplicates.filter(g => !isDuplicateIgnored(g));
+  const ignoredDuplicates = shownDuplicates.filter(isDuplicateIgnored);
+
+  // Field rule violations, grouped by rule in library order
+  const brokenByRule = new Map<string, { event: AppEvent, violation: RuleViolation }[]>();
+  shownEvents.forEach(event => event.ruleViolations?.forEach(violation => {
+    if (!brokenByRule.has(violation.ruleId)) brokenByRule.set(violation.ruleId, []);
+    brokenByRule.get(violation.ruleId)!.push({ event, violation });
+  }));
+  const ruleIssues = fieldRules.map(rule => {
+    const ignoreKey: IssueType = `rule:${rule.id}`;
+    const broken = brokenByRule.get(rule.id) || [];
+    return {
+      rule,
+      ignoreKey,
+      pending: broken.filter(item => !item.event.ignoredErrors?.includes(ignoreKey)),
+      ignored: broken.filter(item => item.event.ignoredErrors?.includes(ignoreKey))
+    };
+  });
+  const pendingRuleIssues = ruleIssues.filter(r => r.pending.length > 0);
+  const ignoredRuleIssues = ruleIssues.filter(r => r.ignored.length > 0);
+  const pendingRuleCount = pendingRuleIssues.reduce((sum, r) => sum + r.pending.length, 0);
+  const ignoredRuleCount = ignoredRuleIssues.reduce((sum, r) => sum + r.ignored.length, 0);
+
   // Group Pending Locations
-  const uniqueInvalidLocations: string[] = Array.from(new Set(pendingLocationIssues.map(e => e.location))).filter(l => !!l);
+  const uniqueInvalidLocations: string[] = Array.from(pendingLocationGroups.keys()).filter(l => !!l);
 
   // Ignored Issues
-  const ignoredSerialIssues = events.filter(e => e.serialNo !== String(events.indexOf(e) + 1) && e.ignoredErrors?.includes('serial'));
-  const ignoredTimeIssues = events.filter(e => !e.isTimeValid && e.ignoredErrors?.includes('time'));
-  const ignoredLocationIssues = events.filter(e => !e.isLocationValid && e.ignoredErrors?.includes('location'));
+  const ignoredSerialIssues = shownEvents.filter(e => wrongSerialIds.has(e.id) && e.ignoredErrors?.includes('serial'));
+  const ignoredTimeIssues = shownEvents.filter(e => !e.isTimeValid && e.ignoredErrors?.includes('time'));
+  const ignoredLocationIssues = shownEvents.filter(e => !e.isLocationValid && e.ignoredErrors?.includes('location'));
 
-  const pendingCount = (pendingSerialIssues.length > 0 ? 1 : 0) + pendingTimeIssues.length + uniqueInvalidLocations.length;
-  const ignoredCount = (ignoredSerialIssues.length > 0 ? 1 : 0) + ignoredTimeIssues.length + ignoredLocationIssues.length;
+  const pendingCount = (pendingSerialIssues.length > 0 ? 1 : 0) + pendingTimeIssues.length + uniqueInvalidLocations.length + pendingConflicts.length + pendingDuplicates.length + pendingRuleCount;
+  const ignoredCount = (ignoredSerialIssues.length > 0 ? 1 : 0) + ignoredTimeIssues.length + ignoredLocationIssues.length + ignoredConflicts.length + ignoredDuplicates.length + ignoredRuleCount;
 
   // Auto-scroll logic
   useEffect(() => {
     if (selection?.source === 'table' && selection.id) {
-      const event = events.find(e => e.id === selection.id);
+      const event = eventById.get(selection.id);
       if (!event) return;
 
       let targetElementId = '';
       const hasTimeError = !event.isTimeValid && !event.ignoredErrors?.includes('time');
       const hasLocError = !event.isLocationValid && !event.ignoredErrors?.includes('location');
-      const hasSerialError = event.serialNo !== String(events.indexOf(event) + 1) && !event.ignoredErrors?.includes('serial');
+      const hasSerialError = wrongSerialIds.has(event.id) && !event.ignoredErrors?.includes('serial');
+      const conflict = pendingConflicts.find(c => c.firstId === event.id || c.secondId === event.id);
+      const duplicate = pendingDuplicates.find(g => g.ids.includes(event.id));
+      const brokenRule = pendingRuleIssues.find(r => r.pending.some(item => item.event.id === event.id));
 
-      if (hasTimeError || hasLocError || hasSerialError) {
+      if (hasTimeError || hasLocError || hasSerialError || conflict || duplicate || brokenRule) {
         setViewMode('pending');
       }
 
@@ -77,6 +174,9 @@ export const IssueSidebar: React.FC<IssueSidebarProps> = ({
       } else {
          if (hasTimeError) targetElementId = `issue-time-card-${event.id}`;
          else if (hasSerialError) targetElementId = 'issue-serial-group';
+         else if (duplicate && !hasLocError) targetElementId = `issue-duplicate-card-${duplicate.key}`;
+         else if (conflict && !hasLocError) targetElementId = `issue-conflict-card-${conflict.key}`;
+         else if (brokenRule && !hasLocError) targetElementId = `issue-rule-group-${brokenRule.rule.id}`;
       }
 
       setTimeout(() => {
@@ -112,7 +212,15 @@ export const IssueSidebar: React.FC<IssueSidebarProps> = ({
         const pattern = generateRegexFromTime(timeStr);
         // Clean string to remove brackets for the rule name
         const cleanStr = timeStr.replace(/(\(.*?\)|（.*?）)/g, '').trim();
-        if (window.confirm(`是否将格式 "${cleanStr}"\n(自动生成正则: ${pattern})\n添加到合法规则库?`)) {
+        // Generated patterns go through the same lint as typed ones
+        const lintIssues = lintPattern(pattern);
+        const errors = lintIssues.filter(i => i.severity === 'error');
+        if (errors.length > 0) {
+            alert(`无法添加该格式：\n\n${errors.map(i => i.message).join('\n\n')}`);
+            return;
+        }
+        const warnings = lintIssues.length > 0 ? `\n\n该格式存在以下问题：\n\n${lintIssues.map(i => i.message).join('\n\n')}` : '';
+        if (window.confirm(`是否将格式 "${cleanStr}"\n(自动生成正则: ${pattern})\n添加到合法规则库?${warnings}`)) {
             onAddFormatRule(`自定义格式: ${cleanStr}`, pattern);
         }
       } catch (e) {
@@ -200,7 +308,9 @@ export const IssueSidebar: React.FC<IssueSidebarProps> = ({
                 <div className="space-y-3 max-h-[400px] overflow-y-auto pr-1">
                   {uniqueInvalidLocations.map((loc, idx) => {
                     const recommendation = getRecommendedLocation(loc, locations);
-                    const affectedEvents = pendingLocationIssues.filter(e => e.location === loc);
+                    const affectedEvents = pendingLocationGroups.get(loc)!;
+                    const severity = worstSeverity(affectedEvents.map(e => e.locationSeverity || 'error'));
+                    const affectedSources = Array.from(new Set<string>(affectedEvents.map(e => e.source ? formatEventSource(e.source) : '').filter(Boolean)));
                     
                     return (
                       <div 
@@ -210,7 +320,10 @@ export const IssueSidebar: React.FC<IssueSidebarProps> = ({
                         className={`bg-gray-50 p-3 rounded-md text-sm border border-gray-100 shadow-sm transition-all duration-500 cursor-pointer ${highlightId === loc ? 'ring-2 ring-blue-400 bg-blue-50' : ''}`}
                       >
                         <div className="flex justify-between items-start gap-3 mb-2">
-                             <span className="font-bold text-gray-800 break-words flex-1 leading-snug" title={loc}>{loc}</span>
+                             <span className="font-bold text-gray-800 break-words flex-1 leading-snug" title={loc}>
+                               {loc}
+                               {severity && severity !== 'error' && <span className="ml-1.5 align-middle"><SeverityBadge severity={severity} /></span>}
+                             </span>
                              <div className="flex flex-col gap-2 shrink-0">
                                 <button 
                                   onClick={(e) => { e.stopPropagation(); onAddLocationToLibrary(loc); }} 
@@ -228,6 +341,9 @@ export const IssueSidebar: React.FC<IssueSidebarProps> = ({
                                 </button>
                              </div>
                         </div>
+                        {affectedSources.length > 0 && (
+                           <p className="text-xs text-gray-400 truncate" title={affectedSources.join('\n')}>来源: {affectedSources.join('、')}</p>
+                        )}
                         {recommendation && (
                            <div className="mt-2 flex items-center justify-between bg-yellow-50 p-2 rounded border border-yellow-100">
                                <div className="flex items-center text-yellow-800 text-xs">
@@ -255,34 +371,45 @@ export const IssueSidebar: React.FC<IssueSidebarProps> = ({
             {/* Time Issues */}
             {pendingTimeIssues.length > 0 && (
               <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-4">
-                <div className="flex items-center mb-3 text-red-600">
-                  <Clock className="w-5 h-5 mr-2" />
-                  <h4 className="font-bold text-base">时间格式错误 ({pendingTimeIssues.length})</h4>
+                <div className="flex items-center justify-between mb-3 text-red-600">
+                  <div className="flex items-center">
+                    <Clock className="w-5 h-5 mr-2" />
+                    <h4 className="font-bold text-base">时间问题 ({pendingTimeIssues.length})</h4>
+                  </div>
+                  <span className="text-xs text-gray-500">{summarizeSeverities(pendingTimeIssues.map(e => e.timeSeverity || 'error'))}</span>
                 </div>
                 <div className="space-y-3 max-h-[500px] overflow-y-auto pr-1">
                   {pendingTimeIssues.map((item) => {
-                    const recommendation = getRecommendedTime(item.time);
+                    // The validator's own correction (e.g. the right weekday) beats the generic rewrite
+                    const recommendation = item.timeSuggestion || getRecommendedTime(item.time);
                     const isHighlighted = highlightId === `issue-time-card-${item.id}`;
                     
                     // Allow adding if it's explicitly a format mismatch OR if we aren't sure.
                     // If it's a logical error (validationMessage not containing "格式"), we block it.
-                    const isFormatError = item.validationMessage && item.validationMessage.includes("格式");
+                    const severity = item.timeSeverity || 'error';
+                    const styles = SEVERITY_STYLES[severity];
+                    // Flagged formats and long ranges already match a format
+                    const isFormatError = !item.timeSeverity && item.validationMessage && item.validationMessage.includes("格式");
                     // Default to true if message is missing for some reason, to enable the button.
-                    const canAddRule = isFormatError || !item.validationMessage;
+                    const canAddRule = isFormatError || (!item.validationMessage && !item.timeSeverity);
 
                     return (
                       <div 
                         key={item.id} 
                         id={`issue-time-card-${item.id}`}
                         onClick={() => onSelectIssue?.(item.id, 'sidebar', 'time')}
-                        className={`bg-gray-50 p-3 rounded-md border border-gray-100 shadow-sm transition-all duration-500 cursor-pointer ${isHighlighted ? 'ring-2 ring-red-400 bg-red-50' : ''}`}
+                        className={`bg-gray-50 p-3 rounded-md border border-gray-100 shadow-sm transition-all duration-500 cursor-pointer ${isHighlighted ? `ring-2 ${styles.ring}` : ''}`}
                       >
                         <div className="flex justify-between items-start mb-2">
                           <div className="flex flex-col flex-1 mr-2">
                             <span className="text-sm font-bold text-gray-800 break-words leading-snug" title={item.name}>
                                 {item.name}
+                                {severity !== 'error' && <span className="ml-1.5 align-middle"><SeverityBadge severity={severity} /></span>}
+                            </span>
+                            <span className="text-xs text-gray-400 mt-0.5">
+                                序号 #{item.serialNo}
+                                {item.source && <span className="ml-1.5" title="来源">· {formatEventSource(item.source)}</span>}
                             </span>
-                            <span className="text-xs text-gray-400 mt-0.5">序号 #{item.serialNo}</span>
                           </div>
                         </div>
                         
@@ -308,7 +435,7 @@ export const IssueSidebar: React.FC<IssueSidebarProps> = ({
                               </div>
                             ) : (
                               <div 
-                                  className="flex-1 text-sm text-red-600 bg-red-50 px-3 py-1.5 rounded cursor-pointer border border-red-100 hover:bg-red-100 hover:border-red-200 transition-colors flex items-center justify-between group h-9"
+                                  className={`flex-1 text-sm px-3 py-1.5 rounded cursor-pointer border transition-colors flex items-center justify-between group h-9 ${styles.box}`}
                                   onClick={(e) => { e.stopPropagation(); handleStartEditTime(item.id, item.time); }}
                                   title="点击修改"
                               >
@@ -358,7 +485,7 @@ export const IssueSidebar: React.FC<IssueSidebarProps> = ({
 
                         {/* Validation Error Message */}
                         {item.validationMessage && (
-                            <div className="mt-1.5 text-xs text-red-500 flex items-start">
+                            <div className={`mt-1.5 text-xs flex items-start ${styles.text}`}>
                                 <AlertCircle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
                                 <span>{item.validationMessage}</span>
                             </div>
@@ -384,6 +511,178 @@ export const IssueSidebar: React.FC<IssueSidebarProps> = ({
                 </div>
               </div>
             )}
+
+            {/* Field Rule Violations */}
+            {pendingRuleIssues.map(({ rule, ignoreKey, pending }) => {
+              const groupId = `issue-rule-group-${rule.id}`;
+              return (
+                <div
+                  key={rule.id}
+                  id={groupId}
+                  className={`bg-white rounded-lg border border-gray-200 shadow-sm p-4 transition-all duration-500 ${highlightId === groupId ? 'ring-2 ring-teal-400 bg-teal-50' : ''}`}
+                >
+                  <div className="flex items-center justify-between mb-3 text-teal-700">
+                    <div className="flex items-center min-w-0">
+                      <ListChecks className="w-5 h-5 mr-2 shrink-0" />
+                      <span className="mr-1.5"><SeverityBadge severity={rule.severity || 'error'} /></span>
+                      <h4 className="font-bold text-base truncate" title={describeFieldRule(rule)}>
+                        {getRuleFieldLabel(rule.field)}: {describeFieldRule(rule)} ({pending.length})
+                      </h4>
+                    </div>
+                    <button
+                      onClick={() => pending.forEach(item => onIgnoreError(item.event.id, ignoreKey))}
+                      className="text-xs text-gray-500 hover:text-gray-800 underline decoration-gray-300 underline-offset-2 shrink-0 ml-2"
+                      title="忽略此规则的全部违规"
+                    >
+                      全部忽略
+                    </button>
+                  </div>
+                  <div className="space-y-2 max-h-[300px] overflow-y-auto pr-1">
+                    {pending.map(({ event, violation }) => (
+                      <div
+                        key={event.id}
+                        onClick={() => onSelectIssue?.(event.id, 'sidebar')}
+                        className="flex items-start justify-between gap-2 bg-gray-50 p-2 rounded border border-gray-100 cursor-pointer hover:border-teal-200 transition-colors"
+                      >
+                        <div className="flex flex-col min-w-0 flex-1">
+                          <span className="text-xs font-medium text-gray-800 truncate" title={event.name}>#{event.serialNo} {event.name}</span>
+                          <span className={`text-xs mt-0.5 flex items-start ${SEVERITY_STYLES[violation.severity].text}`}>
+                            <AlertCircle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+                            {violation.message}
+                          </span>
+                        </div>
+                        <button
+                          onClick={(e) => { e.stopPropagation(); onIgnoreError(event.id, ignoreKey); }}
+                          className="px-2 py-1 rounded text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 border border-gray-300 transition-colors flex items-center shadow-sm shrink-0"
+                          title="忽略此条错误"
+                        >
+                          <EyeOff className="w-3.5 h-3.5 mr-1"/>忽略
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+
+            {/* Duplicates */}
+            {pendingDuplicates.length > 0 && (
+              <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-4">
+                <div className="flex items-center mb-3 text-amber-600">
+                  <Copy className="w-5 h-5 mr-2" />
+                  <h4 className="font-bold text-base">疑似重复 ({pendingDuplicates.length})</h4>
+                </div>
+                <div className="space-y-3 max-h-[500px] overflow-y-auto pr-1">
+                  {pendingDuplicates.map(group => {
+                    const members = group.ids.map(id => eventById.get(id)).filter(Boolean);
+                    const cardId = `issue-duplicate-card-${group.key}`;
+
+                    return (
+                      <div
+                        key={group.key}
+                        id={cardId}
+                        className={`bg-gray-50 p-3 rounded-md border border-gray-100 shadow-sm transition-all duration-500 ${highlightId === cardId ? 'ring-2 ring-amber-400 bg-amber-50' : ''}`}
+                      >
+                        <div className="flex justify-between items-center gap-3 mb-2">
+                          <span className="text-xs text-amber-700 flex items-center gap-1.5">
+                            <SeverityBadge severity="warning" />
+                            {group.exact ? '完全相同' : '名称相近'} · {members.length} 条
+                          </span>
+                          <div className="flex gap-2 shrink-0">
+                            <button
+                              onClick={() => onMergeDuplicates?.(group.ids)}
+                              className="px-2 py-1.5 rounded text-xs font-medium text-amber-700 bg-amber-100 hover:bg-amber-200 border border-amber-200 transition-colors flex items-center shadow-sm"
+                              title="合并为一条"
+                            >
+                              <Combine className="w-3.5 h-3.5 mr-1"/>合并
+                            </button>
+                            <button
+                              onClick={() => onIgnoreDuplicates?.(group.ids)}
+                              className="px-2 py-1.5 rounded text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 border border-gray-300 transition-colors flex items-center shadow-sm"
+                              title="不是重复，忽略"
+                            >
+                              <EyeOff className="w-3.5 h-3.5 mr-1"/>忽略
+                            </button>
+                          </div>
+                        </div>
+                        <div className="space-y-1.5">
+                          {members.map(e => (
+                            <div
+                              key={e.id}
+                              onClick={() => onSelectIssue?.(e.id, 'sidebar')}
+                              className="bg-white px-2 py-1.5 rounded border border-gray-100 cursor-pointer hover:border-amber-200 hover:bg-amber-50 transition-colors"
+                              title="定位到此行"
+                            >
+                              <div className="text-xs font-medium text-gray-800 truncate" title={e.name}>#{e.serialNo} {e.name}</div>
+                              <div className="text-xs text-gray-500 truncate">
+                                {e.time} · {e.location}
+                                {e.source && <span className="ml-1.5 text-gray-400">· {formatEventSource(e.source)}</span>}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {/* Venue Conflicts */}
+            {pendingConflicts.length > 0 && (
+              <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-4">
+                <div className="flex items-center justify-between mb-3 text-purple-600">
+                  <div className="flex items-center">
+                    <CalendarX className="w-5 h-5 mr-2" />
+                    <h4 className="font-bold text-base">场地冲突 ({pendingConflicts.length})</h4>
+                  </div>
+                </div>
+                <div className="space-y-3 max-h-[500px] overflow-y-auto pr-1">
+                  {pendingConflicts.map(conflict => {
+                    const pair = [conflict.firstId, conflict.secondId].map(id => eventById.get(id)).filter(Boolean);
+                    const cardId = `issue-conflict-card-${conflict.key}`;
+
+                    return (
+                      <div
+                        key={conflict.key}
+                        id={cardId}
+                        className={`bg-gray-50 p-3 rounded-md border border-gray-100 shadow-sm transition-all duration-500 ${highlightId === cardId ? 'ring-2 ring-purple-400 bg-purple-50' : ''}`}
+                      >
+                        <div className="flex justify-between items-start gap-3 mb-2">
+                          <div className="flex flex-col flex-1 min-w-0">
+                            <span className="text-sm font-bold text-gray-800 break-words leading-snug" title={conflict.location}>{conflict.location}</span>
+                            <span className="text-xs text-purple-600 mt-0.5">重叠: {conflict.overlap}</span>
+                          </div>
+                          <button
+                            onClick={() => onIgnoreConflict?.(conflict.key)}
+                            className="px-2 py-1.5 rounded text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 border border-gray-300 transition-colors flex items-center justify-center shadow-sm shrink-0"
+                            title="忽略此冲突"
+                          >
+                            <EyeOff className="w-3.5 h-3.5 mr-1"/>忽略
+                          </button>
+                        </div>
+                        <div className="space-y-1.5">
+                          {pair.map(e => (
+                            <div
+                              key={e.id}
+                              onClick={() => onSelectIssue?.(e.id, 'sidebar', 'time')}
+                              className="bg-white px-2 py-1.5 rounded border border-gray-100 cursor-pointer hover:border-purple-200 hover:bg-purple-50 transition-colors"
+                              title="定位到此行"
+                            >
+                              <div className="text-xs font-medium text-gray-800 truncate" title={e.name}>#{e.serialNo} {e.name}</div>
+                              <div className="text-xs text-gray-500 truncate">
+                                {e.time}
+                                {e.source && <span className="ml-1.5 text-gray-400">· {formatEventSource(e.source)}</span>}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
           </>
         )}
         
@@ -427,7 +726,7 @@ export const IssueSidebar: React.FC<IssueSidebarProps> = ({
                                 <div key={e.id} className="flex justify-between items-center text-xs bg-white p-2 rounded border border-gray-100">
                                     <div className="flex flex-col truncate flex-1">
                                        <span className="font-medium">{e.name}</span>
-                                       <span className="text-gray-500">{e.time}</span>
+                                       <span className="text-gray-500">{e.time}{e.source && ` · ${formatEventSource(e.source)}`}</span>
                                     </div>
                                     <button onClick={() => onRestoreError(e.id, 'time')} className="text-blue-600 hover:text-blue-800 ml-2"><RotateCcw className="w-3 h-3"/></button>
                                 </div>
@@ -435,6 +734,57 @@ export const IssueSidebar: React.FC<IssueSidebarProps> = ({
                          </div>
                     </div>
                  )}
+
+                 {ignoredRuleIssues.map(({ rule, ignoreKey, ignored }) => (
+                    <div key={rule.id} className="bg-gray-50 rounded-lg p-3 border border-gray-200">
+                         <h5 className="text-sm font-medium text-gray-700 mb-2 truncate" title={describeFieldRule(rule)}>
+                           {getRuleFieldLabel(rule.field)}: {describeFieldRule(rule)} ({ignored.length})
+                         </h5>
+                         <div className="space-y-2">
+                            {ignored.map(({ event }) => (
+                                <div key={event.id} className="flex justify-between items-center text-xs bg-white p-2 rounded border border-gray-100">
+                                    <span className="truncate flex-1" title={event.name}>{event.name}</span>
+                                    <button onClick={() => onRestoreError(event.id, ignoreKey)} className="text-blue-600 hover:text-blue-800 ml-2"><RotateCcw className="w-3 h-3"/></button>
+                                </div>
+                            ))}
+                         </div>
+                    </div>
+                 ))}
+
+                 {ignoredDuplicates.length > 0 && (
+                    <div className="bg-gray-50 rounded-lg p-3 border border-gray-200">
+                         <h5 className="text-sm font-medium text-gray-700 mb-2">疑似重复 ({ignoredDuplicates.length})</h5>
+                         <div className="space-y-2">
+                            {ignoredDuplicates.map(g => (
+                                <div key={g.key} className="flex justify-between items-center text-xs bg-white p-2 rounded border border-gray-100">
+                                    <span className="truncate flex-1" title={g.ids.map(id => eventById.get(id)?.name).join('\n')}>
+                                      {g.ids.map(id => eventById.get(id)?.name).join(' / ')}
+                                    </span>
+                                    <button onClick={() => onRestoreDuplicates?.(g.ids)} className="text-blue-600 hover:text-blue-800 ml-2"><RotateCcw className="w-3 h-3"/></button>
+                                </div>
+                            ))}
+                         </div>
+                    </div>
+                 )}
+
+                 {ignoredConflicts.length > 0 && (
+                    <div className="bg-gray-50 rounded-lg p-3 border border-gray-200">
+                         <h5 className="text-sm font-medium text-gray-700 mb-2">场地冲突 ({ignoredConflicts.length})</h5>
+                         <div className="space-y-2">
+                            {ignoredConflicts.map(c => (
+                                <div key={c.key} className="flex justify-between items-center text-xs bg-white p-2 rounded border border-gray-100">
+                                    <div className="flex flex-col truncate flex-1">
+                                       <span className="font-medium truncate" title={c.location}>{c.location}</span>
+                                       <span className="text-gray-500 truncate">
+                                         {[c.firstId, c.secondId].map(id => eventById.get(id)?.name).join(' / ')} · {c.overlap}
+                                       </span>
+                                    </div>
+                                    <button onClick={() => onRestoreConflict?.(c.key)} className="text-blue-600 hover:text-blue-800 ml-2"><RotateCcw className="w-3 h-3"/></button>
+                                </div>
+                            ))}
+                         </div>
+                    </div>
+                 )}
             </div>
         )}
       </div>
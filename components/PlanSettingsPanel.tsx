@@ -0,0 +1,110 @@
+import React from 'react';
+import { PlanSettings } from '../types.ts';
+import { CalendarDays } from 'lucide-react';
+import { getPlanPeriod } from '../timeParser.ts';
+
+// Common plan windows within the chosen year, as [label, first month, last month]
+const PERIOD_PRESETS: [string, number, number][] = [
+  ['全年', 1, 12],
+  ['上半年', 1, 6],
+  ['下半年', 7, 12],
+  ['一季度', 1, 3],
+  ['二季度', 4, 6],
+  ['三季度', 7, 9],
+  ['四季度', 10, 12],
+];
+
+const toIsoDate = (year: number, month: number, day: number) => `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+interface PlanSettingsPanelProps {
+  settings: PlanSettings;
+  onChange: (settings: PlanSettings) => void;
+}
+
+export const PlanSettingsPanel: React.FC<PlanSettingsPanelProps> = ({ settings, onChange }) => {
+  const period = settings.period || { start: '', end: '' };
+  const isPeriodSet = !!(period.start || period.end);
+  const isPeriodValid = !isPeriodSet || !!getPlanPeriod(settings);
+  const thisYear = new Date().getFullYear();
+  const yearOptions = Array.from(new Set([...Array.from({ length: 7 }, (_, i) => thisYear - 3 + i), settings.year])).sort((a, b) => a - b);
+
+  const updatePeriod = (patch: Partial<{ start: string, end: string }>) => {
+    const next = { ...period, ...patch };
+    onChange({ ...settings, period: next.start || next.end ? next : undefined });
+  };
+
+  const presetPeriod = (firstMonth: number, lastMonth: number) => ({
+    start: toIsoDate(settings.year, firstMonth, 1),
+    end: toIsoDate(settings.year, lastMonth, new Date(Date.UTC(settings.year, lastMonth, 0)).getUTCDate())
+  });
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center mb-4">
+        <CalendarDays className="w-5 h-5 text-indigo-500 mr-2" />
+        <h3 className="text-lg font-bold text-gray-900">计划年度</h3>
+      </div>
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">年度</label>
+          <select
+            className="w-full rounded-md border-gray-300 shadow-sm border px-3 py-2 focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+            value={settings.year}
+            onChange={(e) => onChange({ ...settings, year: Number(e.target.value) })}
+          >
+            {yearOptions.map(year => (
+              <option key={year} value={year}>{year} 年</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">未写年份的日期按此年度校验，如非闰年的 2月29日 将被判为错误。</p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">计划周期 (可选)</label>
+          <div className="flex flex-wrap gap-1 mb-2">
+            {PERIOD_PRESETS.map(([label, firstMonth, lastMonth]) => {
+              const preset = presetPeriod(firstMonth, lastMonth);
+              const isActive = period.start === preset.start && period.end === preset.end;
+              return (
+                <button
+                  key={label}
+                  onClick={() => onChange({ ...settings, period: preset })}
+                  className={`px-2 py-0.5 rounded text-xs border transition-colors ${isActive ? 'border-indigo-400 bg-indigo-50 text-indigo-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                >
+                  {settings.year}{label}
+                </button>
+              );
+            })}
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              className="flex-1 min-w-0 rounded-md border-gray-300 shadow-sm border px-2 py-1.5 text-sm bg-white"
+              value={period.start}
+              onChange={(e) => updatePeriod({ start: e.target.value })}
+            />
+            <span className="text-gray-400 text-sm">至</span>
+            <input
+              type="date"
+              className="flex-1 min-w-0 rounded-md border-gray-300 shadow-sm border px-2 py-1.5 text-sm bg-white"
+              value={period.end}
+              onChange={(e) => updatePeriod({ end: e.target.value })}
+            />
+          </div>
+          {isPeriodValid ? (
+            <p className="text-xs text-gray-500 mt-1">超出周期 (未设置时为整个年度) 的日期会被标记：完全在周期外为错误，部分超出为警告；“全年”按整个周期计。设置跨年周期 (如 9月至次年8月) 后，未写年份的日期按所在周期推断年份，“11月-2月”等跨年范围视为有效。</p>
+          ) : (
+            <p className="text-xs text-red-500 mt-1">周期不完整或结束早于开始，暂按年度校验。</p>
+          )}
+          {isPeriodSet && (
+            <button
+              onClick={() => onChange({ ...settings, period: undefined })}
+              className="text-xs text-gray-500 hover:text-gray-800 underline decoration-gray-300 underline-offset-2 mt-1"
+            >
+              清除周期
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { TaskProgress } from '../types.ts';
+import { Loader2, X } from 'lucide-react';
+
+interface TaskProgressBarProps {
+  label: string;
+  progress: TaskProgress;
+  onCancel: () => void;
+}
+
+export const TaskProgressBar: React.FC<TaskProgressBarProps> = ({ label, progress, onCancel }) => {
+  const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="bg-white border border-indigo-200 rounded-md p-3 shadow-sm">
+      <div className="flex items-center justify-between text-sm mb-2">
+        <span className="flex items-center text-indigo-700 font-medium min-w-0">
+          <Loader2 className="w-4 h-4 mr-1.5 animate-spin shrink-0" />
+          <span className="truncate" title={label}>{label}</span>
+        </span>
+        <span className="flex items-center shrink-0 ml-3">
+          {progress.total > 0 && <span className="text-xs text-gray-500 mr-3">{progress.done} / {progress.total}</span>}
+          <button
+            onClick={onCancel}
+            className="flex items-center text-xs text-gray-500 hover:text-red-600"
+            title="取消"
+          >
+            <X className="w-3.5 h-3.5 mr-0.5" />
+            取消
+          </button>
+        </span>
+      </div>
+      <div className="h-1.5 bg-indigo-50 rounded-full overflow-hidden">
+        {progress.total > 0 ? (
+          <div className="h-full bg-indigo-500 transition-all duration-200" style={{ width: `${percent}%` }} />
+        ) : (
+          <div className="h-full w-full bg-indigo-300 animate-pulse" />
+        )}
+      </div>
+    </div>
+  );
+};
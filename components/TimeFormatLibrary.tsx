@@ -1,34 +1,57 @@
 import React, { useState } from 'react';
-import { TimeFormatItem } from '../types.ts';
-import { Plus, Trash2, Clock, PlayCircle, CheckCircle, XCircle } from 'lucide-react';
-import { validateTimeFormat } from '../constants.ts';
+import { TimeFormatItem, PlanSettings, Severity } from '../types.ts';
+import { Plus, Trash2, Clock, PlayCircle, CheckCircle, XCircle, AlertTriangle, AlertCircle, Tag, X } from 'lucide-react';
+import { validateTimeFormat, SEVERITY_LABELS, SEVERITY_BADGE_CLASSES } from '../constants.ts';
+import { describeParsedTime } from '../timeParser.ts';
+import { lintPattern, getPatternProblem } from '../regexSafety.ts';
+import { PlanSettingsPanel } from './PlanSettingsPanel.tsx';
 
 interface TimeFormatLibraryProps {
   formats: TimeFormatItem[];
-  onAddFormat: (name: string, pattern: string) => void;
+  onAddFormat: (name: string, pattern: string, severity?: Severity) => void;
   onRemoveFormat: (id: string) => void;
+  planSettings: PlanSettings;
+  onChangePlanSettings: (settings: PlanSettings) => void;
+  remarkKeywords: string[];
+  onChangeRemarkKeywords: (keywords: string[]) => void;
 }
 
-export const TimeFormatLibrary: React.FC<TimeFormatLibraryProps> = ({ formats, onAddFormat, onRemoveFormat }) => {
-  const [newFormat, setNewFormat] = useState({ name: '', pattern: '' });
+export const TimeFormatLibrary: React.FC<TimeFormatLibraryProps> = ({ formats, onAddFormat, onRemoveFormat, planSettings, onChangePlanSettings, remarkKeywords, onChangeRemarkKeywords }) => {
+  // An empty severity means times in this format are simply accepted
+  const [newFormat, setNewFormat] = useState<{ name: string, pattern: string, severity: Severity | '' }>({ name: '', pattern: '', severity: '' });
   const [testValue, setTestValue] = useState('');
+  const [newKeyword, setNewKeyword] = useState('');
+
+  // Checked while typing; errors block the format, warnings need a confirmation
+  const lintIssues = newFormat.pattern.trim() ? lintPattern(newFormat.pattern.trim()) : [];
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (newFormat.name.trim() && newFormat.pattern.trim()) {
-      // Basic regex validity check
-      try {
-        new RegExp(newFormat.pattern);
-        onAddFormat(newFormat.name.trim(), newFormat.pattern.trim());
-        setNewFormat({ name: '', pattern: '' });
-      } catch (err) {
-        alert('正则表达式格式不正确，请检查。');
+      const errors = lintIssues.filter(i => i.severity === 'error');
+      if (errors.length > 0) {
+        alert(`无法添加该格式：\n\n${errors.map(i => i.message).join('\n\n')}`);
+        return;
+      }
+      if (lintIssues.length > 0 && !window.confirm(`该格式存在以下问题：\n\n${lintIssues.map(i => i.message).join('\n\n')}\n\n仍要添加吗?`)) {
+        return;
       }
+      onAddFormat(newFormat.name.trim(), newFormat.pattern.trim(), newFormat.severity || undefined);
+      setNewFormat({ name: '', pattern: '', severity: '' });
     }
   };
 
-  const validationResult = validateTimeFormat(testValue, formats);
+  const handleAddKeyword = (e: React.FormEvent) => {
+    e.preventDefault();
+    const keyword = newKeyword.trim();
+    if (keyword && !remarkKeywords.includes(keyword)) onChangeRemarkKeywords([...remarkKeywords, keyword]);
+    setNewKeyword('');
+  };
+
+  const validationResult = validateTimeFormat(testValue, formats, planSettings, remarkKeywords);
   const isTestValid = validationResult.isValid;
+  // Accepted with a warning or hint rather than rejected
+  const isTestFlagged = !isTestValid && validationResult.severity && validationResult.severity !== 'error';
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -59,10 +82,18 @@ export const TimeFormatLibrary: React.FC<TimeFormatLibraryProps> = ({ formats, o
                         系统预设
                       </span>
                     )}
+                    {fmt.severity && (
+                      <span className={`ml-2 px-2 py-0.5 rounded text-xs font-medium ${SEVERITY_BADGE_CLASSES[fmt.severity]}`}>
+                        标记为{SEVERITY_LABELS[fmt.severity]}
+                      </span>
+                    )}
                   </div>
                   <p className="text-xs text-gray-500 font-mono mt-1 truncate" title={fmt.pattern}>
                     {fmt.pattern}
                   </p>
+                  {getPatternProblem(fmt.pattern) && (
+                    <p className="text-xs text-red-600 mt-1">已停用：{getPatternProblem(fmt.pattern)}</p>
+                  )}
                 </div>
                 {!fmt.isSystem && (
                   <button
@@ -80,6 +111,49 @@ export const TimeFormatLibrary: React.FC<TimeFormatLibraryProps> = ({ formats, o
 
       {/* Sidebar: Add & Test */}
       <div className="space-y-6">
+        <PlanSettingsPanel settings={planSettings} onChange={onChangePlanSettings} />
+
+        {/* Remark Keywords */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex items-center mb-2">
+            <Tag className="w-5 h-5 text-gray-400 mr-2" />
+            <h3 className="text-lg font-bold text-gray-900">备注关键词</h3>
+          </div>
+          <p className="text-xs text-gray-500 mb-4">
+            括号中的内容 (如“5月1日(暂定)”) 作为时间备注单独显示，导出时保留在原位置。备注含以下词语的时间标记为{SEVERITY_LABELS.warning}。
+          </p>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {remarkKeywords.map(keyword => (
+              <span key={keyword} className="flex items-center px-2 py-1 rounded text-xs font-medium bg-amber-100 text-amber-700">
+                {keyword}
+                <button
+                  onClick={() => onChangeRemarkKeywords(remarkKeywords.filter(k => k !== keyword))}
+                  className="ml-1 text-amber-500 hover:text-red-600"
+                  title="移除"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+            {remarkKeywords.length === 0 && <span className="text-xs text-gray-400">未设置，备注不会被标记</span>}
+          </div>
+          <form onSubmit={handleAddKeyword} className="flex gap-2">
+            <input
+              type="text"
+              className="flex-1 rounded-md border-gray-300 shadow-sm border px-3 py-2 focus:ring-orange-500 focus:border-orange-500 bg-white text-sm"
+              value={newKeyword}
+              onChange={(e) => setNewKeyword(e.target.value)}
+              placeholder="例如：待确认"
+            />
+            <button
+              type="submit"
+              className="flex items-center px-3 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-orange-600 hover:bg-orange-700 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </form>
+        </div>
+
         {/* Add New */}
         <div className="bg-white rounded-lg shadow p-6">
           <h3 className="text-lg font-bold text-gray-900 mb-4">添加新格式</h3>
@@ -105,6 +179,29 @@ export const TimeFormatLibrary: React.FC<TimeFormatLibraryProps> = ({ formats, o
                 onChange={(e) => setNewFormat({ ...newFormat, pattern: e.target.value })}
                 placeholder="例如：^\d{4}年$"
               />
+              {lintIssues.length > 0 && (
+                <div className="mt-2 space-y-1">
+                  {lintIssues.map(issue => (
+                    <div key={issue.message} className={`flex items-start p-2 rounded-md text-xs ${issue.severity === 'error' ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-700'}`}>
+                      {issue.severity === 'error' ? <AlertCircle className="w-4 h-4 mr-1.5 shrink-0" /> : <AlertTriangle className="w-4 h-4 mr-1.5 shrink-0" />}
+                      <span>{issue.message}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">匹配后处理</label>
+              <select
+                className="w-full rounded-md border-gray-300 shadow-sm border px-3 py-2 focus:ring-orange-500 focus:border-orange-500 bg-white"
+                value={newFormat.severity}
+                onChange={(e) => setNewFormat({ ...newFormat, severity: e.target.value as Severity | '' })}
+              >
+                <option value="">直接通过</option>
+                <option value="info">通过，并给出{SEVERITY_LABELS.info}</option>
+                <option value="warning">通过，但标记为{SEVERITY_LABELS.warning}</option>
+                <option value="error">视为{SEVERITY_LABELS.error}</option>
+              </select>
             </div>
             <button
               type="submit"
@@ -131,9 +228,14 @@ export const TimeFormatLibrary: React.FC<TimeFormatLibraryProps> = ({ formats, o
               placeholder="输入时间文本测试..."
             />
             {testValue && (
-              <div className={`flex flex-col p-3 rounded-md ${isTestValid ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+              <div className={`flex flex-col p-3 rounded-md ${isTestValid ? 'bg-green-50 text-green-700' : isTestFlagged ? 'bg-amber-50 text-amber-700' : 'bg-red-50 text-red-700'}`}>
                 <div className="flex items-center">
-                  {isTestValid ? (
+                  {isTestFlagged ? (
+                    <>
+                      <AlertTriangle className="w-5 h-5 mr-2" />
+                      <span className="text-sm font-medium">格式匹配，但有{SEVERITY_LABELS[validationResult.severity]}</span>
+                    </>
+                  ) : isTestValid ? (
                     <>
                       <CheckCircle className="w-5 h-5 mr-2" />
                       <span className="text-sm font-medium">格式匹配成功</span>
@@ -145,9 +247,15 @@ export const TimeFormatLibrary: React.FC<TimeFormatLibraryProps> = ({ formats, o
                     </>
                   )}
                 </div>
+                {(isTestValid || isTestFlagged) && validationResult.parsed && (
+                  <span className="text-xs mt-1 ml-7 opacity-80">解析结果: {describeParsedTime(validationResult.parsed)}</span>
+                )}
                 {!isTestValid && validationResult.message && (
                   <span className="text-xs mt-1 ml-7 opacity-80">{validationResult.message}</span>
                 )}
+                {validationResult.remarks && (
+                  <span className="text-xs mt-1 ml-7 opacity-80">备注: {validationResult.remarks.join('；')}</span>
+                )}
               </div>
             )}
           </div>
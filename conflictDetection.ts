@@ -0,0 +1,121 @@
+import { AppEvent, AddressLibraryItem, PlanSettings, VenueConflict } from './types.ts';
+import { getDaySpan, WEEKDAY_NAMES, clockToMinutes, findClockRange, formatClock } from './timeParser.ts';
+
+interface Booking {
+  event: AppEvent;
+  days: { start: number, end: number }[]; // Day numbers, sorted; empty for weekly events
+  weekdays: number[]; // Only set for weekly events
+  hours: { start: number, end: number } | null; // Minutes since midnight; null means all day
+  first: number;
+  last: number;
+}
+
+const formatDay = (day: number) => {
+  const d = new Date(day * 86400000);
+  return `${d.getUTCMonth() + 1}月${d.getUTCDate()}日`;
+};
+
+// Only times naming days (or weekdays) book a venue; 全年, X月 or X月上旬 say when an activity runs,
+// not that it holds the venue all that time
+const toBooking = (event: AppEvent, plan: PlanSettings): Booking | null => {
+  const parsed = event.parsedTime;
+  if (!parsed || (parsed.kind !== 'date' && parsed.kind !== 'dates' && parsed.kind !== 'range' && parsed.kind !== 'weekly')) return null;
+
+  let hours: Booking['hours'] = null;
+  if (parsed.kind === 'weekly') {
+    hours = { start: clockToMinutes(parsed.startTime), end: clockToMinutes(parsed.endTime) };
+  } else if (parsed.clock?.end) {
+    hours = { start: clockToMinutes(parsed.clock.start), end: clockToMinutes(parsed.clock.end) };
+  } else {
+    // Hours kept in a remark, e.g. "5月1日(14:00-16:00)"
+    hours = findClockRange(event.time);
+  }
+  if (hours && hours.end <= hours.start) hours = null;
+
+  if (parsed.kind === 'weekly') {
+    return { event, days: [], weekdays: parsed.weekdays, hours, first: -Infinity, last: Infinity };
+  }
+
+  let days: Booking['days'];
+  if (parsed.kind === 'dates') {
+    days = parsed.dates
+      .map(date => getDaySpan({ kind: 'date', date }, plan))
+      .filter(Boolean)
+      .sort((a, b) => a.start - b.start);
+  } else {
+    const span = getDaySpan(parsed, plan);
+    days = span ? [span] : [];
+  }
+  if (days.length === 0) return null;
+  return { event, days, weekdays: [], hours, first: days[0].start, last: Math.max(...days.map(d => d.end)) };
+};
+
+// Shared days of two bookings, described for the sidebar; null when they never meet
+const findDayOverlap = (a: Booking, b: Booking): string | null => {
+  if (a.weekdays.length > 0 && b.weekdays.length > 0) {
+    const shared = a.weekdays.filter(d => b.weekdays.includes(d));
+    return shared.length > 0 ? `每周${shared.map(d => WEEKDAY_NAMES[d]).join('、')}` : null;
+  }
+  if (a.weekdays.length > 0 || b.weekdays.length > 0) {
+    const [weekly, dated] = a.weekdays.length > 0 ? [a, b] : [b, a];
+    for (const span of dated.days) {
+      // A week is enough to meet every weekday
+      for (let day = span.start; day <= Math.min(span.end, span.start + 6); day++) {
+        const weekday = new Date(day * 86400000).getUTCDay();
+        if (weekly.weekdays.includes(weekday)) return `${formatDay(day)} (周${WEEKDAY_NAMES[weekday]})`;
+      }
+    }
+    return null;
+  }
+  for (const x of a.days) {
+    for (const y of b.days) {
+      const start = Math.max(x.start, y.start);
+      const end = Math.min(x.end, y.end);
+      if (start <= end) return start === end ? formatDay(start) : `${formatDay(start)} 至 ${formatDay(end)}`;
+    }
+  }
+  return null;
+};
+
+const findOverlap = (a: Booking, b: Booking): string | null => {
+  const days = findDayOverlap(a, b);
+  if (!days) return null;
+  // Without hours on both sides the events are assumed to take the whole day
+  if (!a.hours || !b.hours) return days;
+  const start = Math.max(a.hours.start, b.hours.start);
+  const end = Math.min(a.hours.end, b.hours.end);
+  return start < end ? `${days} ${formatClock(start)}-${formatClock(end)}` : null;
+};
+
+// Pairs of events booked into the same library location at overlapping dates (and hours where
+// both give them). Events with an unknown or shared location, or an unparsed time, are left
+// out; times with only a warning (e.g. a long range) still have a parsed value and take part.
+export const findVenueConflicts = (events: AppEvent[], plan: PlanSettings, library: AddressLibraryItem[]): VenueConflict[] => {
+  const shared = new Set(library.filter(loc => loc.shared).map(loc => loc.name));
+  const byLocation = new Map<string, Booking[]>();
+  events.forEach(event => {
+    const location = event.location.trim();
+    if (!location || !event.isLocationValid || shared.has(location)) return;
+    const booking = toBooking(event, plan);
+    if (!booking) return;
+    if (!byLocation.has(location)) byLocation.set(location, []);
+    byLocation.get(location)!.push(booking);
+  });
+
+  const conflicts: VenueConflict[] = [];
+  byLocation.forEach((bookings, location) => {
+    // Weekly bookings sort first, so the early exit below only ever skips dated ones
+    bookings.sort((a, b) => a.first - b.first);
+    bookings.forEach((a, i) => {
+      for (let j = i + 1; j < bookings.length; j++) {
+        const b = bookings[j];
+        if (b.first > a.last) break;
+        const overlap = findOverlap(a, b);
+        if (overlap) {
+          conflicts.push({ key: `${a.event.id}|${b.event.id}`, location, firstId: a.event.id, secondId: b.event.id, overlap });
+        }
+      }
+    });
+  });
+  return conflicts;
+};
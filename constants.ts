@@ -1,101 +1,185 @@
-import { TimeFormatItem, AddressLibraryItem } from './types.ts';
+import { TimeFormatItem, AddressLibraryItem, CustomFieldType, PlanSettings, Severity, TimeValidation } from './types.ts';
+import { testPattern } from './regexSafety.ts';
+import { normalizeTimeText } from './timeNormalization.ts';
+import { parseTime, checkParsedTime, checkDateTokens, checkWeekdayNotes, checkClockTimes, checkPlanPeriod, checkRemarkDates, stripTimeRemarks, extractTimeRemarks, getDefaultPlanSettings, getDaySpan } from './timeParser.ts';
+
+// 时:分 with an optional 上午/下午/晚上, e.g. "下午2:30"
+const CLOCK_PATTERN = '(?:(?:上午|早上|中午|下午|晚上)\\s*)?\\d{1,2}:\\d{2}';
+// A time or time range after the dates, e.g. " 14:30-16:00"
+const CLOCK_SUFFIX_PATTERN = `\\s*${CLOCK_PATTERN}(?:-${CLOCK_PATTERN})?`;
 
 export const INITIAL_TIME_FORMATS: TimeFormatItem[] = [
   { id: '1', name: 'X月X日', pattern: '^\\d{1,2}月\\d{1,2}日$', isSystem: true },
   { id: '2', name: 'X月X日-X月X日', pattern: '^\\d{1,2}月\\d{1,2}日[-\\s]+\\d{1,2}月\\d{1,2}日$', isSystem: true },
   { id: '3', name: 'X月', pattern: '^\\d{1,2}月$', isSystem: true },
   { id: '4', name: 'X月上旬/中旬/下旬', pattern: '^\\d{1,2}月[上中下]旬$', isSystem: true },
-  { id: '5', name: '每周固定时间', pattern: '^每周[一二三四五六日、\\s]+\\d{1,2}:\\d{2}-\\d{1,2}:\\d{2}$', isSystem: true },
+  { id: '5', name: '每周固定时间', pattern: `^每周[一二三四五六日、\\s]+${CLOCK_PATTERN}-${CLOCK_PATTERN}$`, isSystem: true },
   { id: '6', name: '多日期(顿号/空格分隔)', pattern: '^\\d{1,2}月\\d{1,2}日([、\\s]+\\d{1,2}月\\d{1,2}日)*$', isSystem: true },
   { id: '7', name: 'X月-X月', pattern: '^\\d{1,2}月-\\d{1,2}月$', isSystem: true },
   { id: '8', name: '全年', pattern: '^全年$', isSystem: true },
   { id: '9', name: 'X年X月X日-X年X月X日', pattern: '^\\d{4}年\\d{1,2}月\\d{1,2}日[-\\s]+\\d{4}年\\d{1,2}月\\d{1,2}日$', isSystem: true },
   { id: '10', name: 'X年X月X日', pattern: '^\\d{4}年\\d{1,2}月\\d{1,2}日$', isSystem: true },
+  { id: '11', name: 'X月X日 时:分-时:分', pattern: `^\\d{1,2}月\\d{1,2}日([、\\s]+\\d{1,2}月\\d{1,2}日)*${CLOCK_SUFFIX_PATTERN}$`, isSystem: true },
+  { id: '12', name: 'X月X日-X月X日 时:分-时:分', pattern: `^\\d{1,2}月\\d{1,2}日[-\\s]+\\d{1,2}月\\d{1,2}日${CLOCK_SUFFIX_PATTERN}$`, isSystem: true },
+  { id: '13', name: 'X年X月X日 时:分-时:分', pattern: `^\\d{4}年\\d{1,2}月\\d{1,2}日${CLOCK_SUFFIX_PATTERN}$`, isSystem: true },
 ];
 
-// Helper to check if a date logically exists (e.g., Feb 30 is invalid)
-// Returns NULL if valid, or a string message if invalid
-const checkLogicalValidity = (str: string): string | null => {
-  // 1. Extract all potential M-D pairs using a loose regex looking for numbers followed by common separators
-  // Matches: 5月1日, 5.1, 5-1, 05/01
-  const dates: {m: number, d: number}[] = [];
-  const dateRegex = /(\d{1,2})\s*[月\.\/-]\s*(\d{1,2})\s*[日]?/g;
-  
-  let match;
-  // We clone the regex to avoid state issues or just use a loop
-  let tempStr = str;
-  
-  while ((match = dateRegex.exec(tempStr)) !== null) {
-     dates.push({ m: parseInt(match[1]), d: parseInt(match[2]) });
-  }
+// Remarks containing one of these words ("5月1日(暂定)") mark a time that is not final yet
+export const INITIAL_REMARK_KEYWORDS = ['暂定', '待定'];
+
+export const SEVERITY_LABELS: Record<Severity, string> = {
+  error: '错误',
+  warning: '警告',
+  info: '提示',
+};
+
+// Badge colours, shared by the issue list and the libraries
+export const SEVERITY_BADGE_CLASSES: Record<Severity, string> = {
+  error: 'bg-red-100 text-red-700',
+  warning: 'bg-amber-100 text-amber-700',
+  info: 'bg-blue-100 text-blue-700',
+};
+
+// Most serious first; undefined severity on an issue means error
+export const SEVERITY_RANK: Record<Severity, number> = { error: 0, warning: 1, info: 2 };
+
+// The most serious of the given severities, skipping missing ones; null when none are given
+export const worstSeverity = (severities: (Severity | null | undefined)[]): Severity | null =>
+  severities.reduce<Severity | null>((worst, s) => (s && (!worst || SEVERITY_RANK[s] < SEVERITY_RANK[worst]) ? s : worst), null);
 
-  // If no dates found (e.g. "全年", "每周三"), we skip logic validation (assume valid if regex matched)
-  if (dates.length === 0) return null;
+// Date ranges longer than this are accepted but flagged, as they are often typos (5月1日-6月1日 for 5月1日-5月6日)
+const LONG_RANGE_DAYS = 92;
 
-  // 2. Validate Existence
-  const daysInMonth = [0, 31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]; // 29 for Feb to be permissive of leap years
-  for (const date of dates) {
-      if (date.m < 1 || date.m > 12) return `月份 ${date.m} 无效 (需1-12)`;
-      if (date.d < 1 || date.d > daysInMonth[date.m]) return `${date.m}月只有${daysInMonth[date.m]}天，无法设置为${date.d}日`;
+const FORMAT_MISMATCH_MESSAGE = "格式不符合任何已知规则 (如: X月X日)";
+
+// Year-less dates are checked in the plan year (or period), e.g. 2月29日 only passes in leap years.
+// Results with a severity other than error keep isValid false, so they are listed as issues, but
+// carry the parsed value like an accepted time.
+
+const checkTimeText = (timeStr: string, formats: TimeFormatItem[], plan: PlanSettings, remarkKeywords: string[]): TimeValidation => {
+
+  // Remove content in brackets (half-width or full-width) and inline weekday notes for format matching,
+  // e.g. "1月1日(备注)" -> "1月1日"; the remarks are checked on their own below
+  const cleanStr = stripTimeRemarks(timeStr);
+  const remarks = extractTimeRemarks(timeStr);
+
+  // Step 1: Format Matching (Regex)
+  const matchedFormats = formats.filter(fmt => testPattern(fmt.pattern, cleanStr));
+
+  if (matchedFormats.length === 0) return { isValid: false, message: FORMAT_MISMATCH_MESSAGE };
+
+  // Step 2: Logical Validation (Existence & Range) on the structured value
+  const parsed = parseTime(cleanStr);
+  // Texts accepted by a custom format as written ("5月32号") still have their dates checked in canonical form
+  const logicError = parsed ? checkParsedTime(parsed, plan) : checkDateTokens(normalizeTimeText(cleanStr), plan);
+  if (logicError) return { isValid: false, message: logicError };
+
+  // Step 3: Times of day anywhere in the text, remarks included ("19:70", "上午14:00", "18:00-9:00")
+  const clockError = checkClockTimes(timeStr);
+  if (clockError) return { isValid: false, message: clockError };
+
+  // Step 4: 周X notes (stripped above) must match the real weekday of their date
+  const weekdayCheck = checkWeekdayNotes(timeStr, plan);
+  if (weekdayCheck) return { isValid: false, message: weekdayCheck.message, suggestion: weekdayCheck.suggestion };
+
+  // Step 5: Dates inside remarks, e.g. "(报名截止4月31日)"
+  const remarkDateError = checkRemarkDates(remarks, plan);
+  if (remarkDateError) return { isValid: false, message: remarkDateError };
+
+  // Step 6: Dates outside the plan period (or plan year); a range only partly outside is a warning
+  const periodCheck = parsed ? checkPlanPeriod(parsed, plan) : null;
+  if (periodCheck?.severity === 'error') return { isValid: false, message: periodCheck.message };
+  if (periodCheck) return { isValid: false, severity: periodCheck.severity, parsed, message: periodCheck.message };
+
+  // Step 7: Formats that declare a severity; a match with a plain format wins
+  const flaggedFormat = matchedFormats.every(fmt => fmt.severity)
+    ? [...matchedFormats].sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity])[0]
+    : null;
+  if (flaggedFormat) {
+    return { isValid: false, severity: flaggedFormat.severity, parsed: parsed ?? undefined, message: `时间写法属于“${flaggedFormat.name}”，该写法被标记为${SEVERITY_LABELS[flaggedFormat.severity]}` };
   }
 
-  // 3. Validate Range (Start <= End)
-  // Only apply this check if the string clearly looks like a range (contains hyphen or '至') and has exactly 2 dates
-  if (dates.length === 2 && /[-至]/.test(str)) {
-     const start = dates[0];
-     const end = dates[1];
-     const v1 = start.m * 100 + start.d;
-     const v2 = end.m * 100 + end.d;
-     
-     // Special case: Year crossover (e.g., 12月31日-1月1日) is allowed
-     if (start.m === 12 && end.m === 1) return null;
-     
-     if (v1 > v2) {
-       // Check if year is explicitly present to allow v1 > v2 (cross year)
-       // If the input is "2024年12月31日-2025年1月5日", logic extracts 12-31 and 1-5.
-       // 1231 > 105. It enters the 'Year crossover' check above (start.m === 12 && end.m === 1) -> returns null (VALID).
-       // However, for wider ranges like "2024年11月1日-2025年2月1日", the generic check would fail.
-       // We ignore the generic M-D range check if we detect years in the string.
-       if (/\d{4}年/.test(str)) return null; 
-
-       return "结束时间不能早于开始时间";
-     }
+  // Step 8: Suspiciously long ranges
+  const span = parsed?.kind === 'range' ? getDaySpan(parsed, plan) : null;
+  if (span && span.end - span.start + 1 > LONG_RANGE_DAYS) {
+    return { isValid: false, severity: 'warning', parsed, message: `日期跨度长达 ${span.end - span.start + 1} 天，请确认是否有误` };
   }
 
-  return null;
+  // Step 9: Remarks saying the time is not final
+  const keyword = remarkKeywords.find(k => remarks.some(remark => remark.includes(k)));
+  if (keyword) {
+    return { isValid: false, severity: 'warning', parsed: parsed ?? undefined, message: `时间备注含“${keyword}”，时间尚未确定，确定后请更新` };
+  }
+
+  return parsed ? { isValid: true, parsed } : { isValid: true };
 };
 
-export const validateTimeFormat = (timeStr: string, formats: TimeFormatItem[]): { isValid: boolean, message?: string } => {
+export const validateTimeFormat = (
+  timeStr: string,
+  formats: TimeFormatItem[],
+  plan: PlanSettings = getDefaultPlanSettings(),
+  remarkKeywords: string[] = INITIAL_REMARK_KEYWORDS
+): TimeValidation => {
   if (!timeStr) return { isValid: false, message: "时间不能为空" };
 
-  // Remove content in brackets (half-width or full-width) for validation purposes
-  // e.g. "1月1日(备注)" -> "1月1日"
-  const cleanStr = timeStr.replace(/(\(.*?\)|（.*?）)/g, '').trim();
-
-  // Step 1: Format Matching (Regex)
-  const isFormatMatch = formats.some(fmt => {
-    try {
-      const regex = new RegExp(fmt.pattern);
-      return regex.test(cleanStr);
-    } catch (e) {
-      console.warn(`Invalid regex pattern for format ${fmt.name}:`, fmt.pattern);
-      return false;
+  // Remarks stay in the time text (and so in the export, where they were written); events carry them separately
+  const remarks = extractTimeRemarks(timeStr);
+  const withRemarks = (result: TimeValidation): TimeValidation => (remarks.length > 0 ? { ...result, remarks } : result);
+
+  // Variant spellings (五月一日, ５月１日, 5月1号, 5月1日至3日) that no format accepts as written are
+  // checked in their canonical form. Once that form is known, the time is understood and only
+  // flagged, with the rewrite as suggestion. A format accepting the raw spelling wins.
+  const canonical = normalizeTimeText(timeStr);
+  const rawMatches = formats.some(fmt => testPattern(fmt.pattern, stripTimeRemarks(timeStr)));
+  if (canonical !== timeStr && !rawMatches) {
+    const result = checkTimeText(canonical, formats, plan, remarkKeywords);
+    if (result.message !== FORMAT_MISMATCH_MESSAGE) {
+      if (!result.isValid && (result.severity || 'error') === 'error') return withRemarks(result);
+      return withRemarks({
+        isValid: false,
+        severity: worstSeverity(['warning', result.severity]),
+        parsed: result.parsed,
+        suggestion: canonical,
+        message: `写法不规范，建议改为“${canonical}”${result.message ? `；${result.message}` : ''}`
+      });
     }
-  });
+  }
+  return withRemarks(checkTimeText(timeStr, formats, plan, remarkKeywords));
+};
 
-  if (!isFormatMatch) return { isValid: false, message: "格式不符合任何已知规则 (如: X月X日)" };
+// Exact library names pass; a name the library only matches loosely (see getRecommendedLocation)
+// is a warning rather than an error
+export const validateLocation = (location: string, library: AddressLibraryItem[]): { isValid: boolean, severity?: Severity } => {
+  const clean = location.trim();
+  if (library.some(loc => loc.name === clean)) return { isValid: true };
+  return clean && getRecommendedLocation(clean, library) ? { isValid: false, severity: 'warning' } : { isValid: false };
+};
 
-  // Step 2: Logical Validation (Existence & Range)
-  const logicError = checkLogicalValidity(cleanStr);
-  if (logicError) return { isValid: false, message: logicError };
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: '文本',
+  number: '数字',
+  phone: '电话',
+};
 
-  return { isValid: true };
+// Returns NULL if the value fits the custom field type, or a string message if not. Empty values are allowed.
+export const validateCustomField = (value: string, type: CustomFieldType): string | null => {
+  const clean = (value || '').trim();
+  if (!clean || type === 'text') return null;
+  if (type === 'number' && !/^-?\d+(\.\d+)?$/.test(clean)) return '应为数字';
+  if (type === 'phone') {
+    // Mobile (13812345678) or landline with optional area code and extension (0771-1234567-8)
+    const isMobile = /^1[3-9]\d{9}$/.test(clean.replace(/[\s-]/g, ''));
+    const isLandline = /^(0\d{2,3}-?)?\d{7,8}(-\d{1,6})?$/.test(clean);
+    if (!isMobile && !isLandline) return '电话号码格式不正确';
+  }
+  return null;
 };
 
-export const getRecommendedTime = (input: string): string | null => {
-  if (!input) return null;
-  
-  const cleanInput = input.trim();
+const TRAILING_REMARKS_RE = /^(.*?)((?:\s*(?:\(.*?\)|（.*?）))*)$/;
+
+const recommendTimeBody = (input: string): string | null => {
+  // Full-width digits, Chinese numerals, 号 and range connectors first, e.g. "５.２９" -> "5.29"
+  const cleanInput = normalizeTimeText(input.trim());
 
   // Pattern: 5.29 -> 5月29日
   if (/^\d{1,2}\.\d{1,2}$/.test(cleanInput)) {
@@ -118,7 +202,16 @@ export const getRecommendedTime = (input: string): string | null => {
     return cleanInput.replace('/', '月') + '日';
   }
 
-  return null;
+  return cleanInput !== input.trim() ? cleanInput : null;
+};
+
+export const getRecommendedTime = (input: string): string | null => {
+  if (!input) return null;
+  // Trailing remarks are set aside and put back after the rewrite, e.g. "5.29(暂定)" -> "5月29日(暂定)"
+  const [, body, remarks] = input.trim().match(TRAILING_REMARKS_RE);
+  if (!body) return null;
+  const recommendation = recommendTimeBody(body);
+  return recommendation && recommendation + remarks;
 };
 
 export const getRecommendedLocation = (input: string, library: AddressLibraryItem[]): string | null => {
@@ -141,7 +234,7 @@ export const getRecommendedLocation = (input: string, library: AddressLibraryIte
 // Generate a Regex pattern from a sample string
 // e.g. "5.1" -> "^\d{1,2}\.\d{1,2}$"
 export const generateRegexFromTime = (input: string): string => {
-    // 1. Clean brackets first to match validation logic, trimming spaces
+    // 1. Clean brackets first to match validation logic, trimming spaces; remarks are checked separately
     const cleaned = input.replace(/(\(.*?\)|（.*?）)/g, '').trim();
 
     // 2. Escape special characters
@@ -0,0 +1,181 @@
+import { AppEvent, DuplicateGroup, PlanSettings } from './types.ts';
+import { getDaySpan } from './timeParser.ts';
+import { parseChineseNumber } from './timeNormalization.ts';
+
+// Names at least this similar (1 - edit distance / longer length) count as the same activity,
+// e.g. "职工篮球赛" / "职工篮球比赛"
+const NAME_SIMILARITY_THRESHOLD = 0.75;
+// A name contained in another only counts when it is not just a generic word like "比赛"
+const MIN_CONTAINED_NAME_LENGTH = 3;
+// Each name is compared with at most this many other names at its location
+const MAX_NAME_CANDIDATES = 100;
+
+// Numbers in a name, digits or Chinese numerals; normalized names spell them in plain digits,
+// so "第一期培训班" and "第1期培训班" are the same name
+const NAME_NUMBER_RE = /\d+|[〇零一二两三四五六七八九十]+/g;
+
+const normalizeName = (name: string) =>
+  name
+    .replace(/[\s\p{P}\p{S}]/gu, '')
+    .toLowerCase()
+    .replace(NAME_NUMBER_RE, n => (/^\d+$/.test(n) ? String(Number(n)) : String(parseChineseNumber(n) ?? n)));
+const normalizeText = (text: string) => text.replace(/\s+/g, '');
+
+const editDistance = (a: string, b: string) => {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+// Same as areNamesSimilar, for names already normalized
+const areNormalizedNamesSimilar = (x: string, y: string) => {
+  if (!x || !y) return false;
+  if (x === y) return true;
+  // Names differing in their numbers are sessions of a series ("第一期" / "第二期", "5月" / "6月")
+  const numbersX = x.match(/\d+/g);
+  const numbersY = y.match(/\d+/g);
+  if (numbersX && numbersY && numbersX.join(',') !== numbersY.join(',')) return false;
+  const shorter = x.length <= y.length ? x : y;
+  const longer = shorter === x ? y : x;
+  if (shorter.length >= MIN_CONTAINED_NAME_LENGTH && longer.includes(shorter)) return true;
+  // The edit distance is at least the difference in length
+  if (1 - (longer.length - shorter.length) / longer.length < NAME_SIMILARITY_THRESHOLD) return false;
+  return 1 - editDistance(x, y) / longer.length >= NAME_SIMILARITY_THRESHOLD;
+};
+
+export const areNamesSimilar = (a: string, b: string) => areNormalizedNamesSimilar(normalizeName(a), normalizeName(b));
+
+// Two-character sequences of a name. Each edit changes at most two of them, so names similar
+// enough for areNamesSimilar always share one; names sharing none are never compared.
+const bigrams = (name: string) => (name.length < 2 ? [name] : Array.from({ length: name.length - 1 }, (_, i) => name.slice(i, i + 2)));
+
+interface Candidate {
+  event: AppEvent;
+  index: number;
+  span: { start: number, end: number } | null; // null for weekly or unparsed times, compared as text
+}
+
+// Groups of events that look like the same activity entered more than once: similar names at
+// the same location with the same or overlapping time. Members keep the order of the list.
+// Events are bucketed by location and name, so names are compared once per pair of distinct
+// names and overlapping times are found by sweeps rather than by comparing every pair of events.
+export const findDuplicateGroups = (events: AppEvent[], plan: PlanSettings): DuplicateGroup[] => {
+  // Location -> normalized name -> events
+  const byLocation = new Map<string, Map<string, Candidate[]>>();
+  events.forEach((event, index) => {
+    const name = normalizeName(event.name);
+    if (!name) return;
+    const location = normalizeText(event.location);
+    const parsed = event.parsedTime;
+    const span = parsed && parsed.kind !== 'weekly' ? getDaySpan(parsed, plan) : null;
+    if (!byLocation.has(location)) byLocation.set(location, new Map());
+    const byName = byLocation.get(location)!;
+    if (!byName.has(name)) byName.set(name, []);
+    byName.get(name)!.push({ event, index, span });
+  });
+
+  // Union-find over list indexes, so near-duplicates of near-duplicates end up in one group
+  const parent = events.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) i = parent[i] = parent[parent[i]];
+    return i;
+  };
+  const union = (a: Candidate, b: Candidate) => { parent[find(a.index)] = find(b.index); };
+
+  // Dated times overlap when their day spans do. Sweeping in start order, each event is linked to
+  // the earlier one reaching furthest, which it overlaps whenever it overlaps any earlier one;
+  // that yields the same groups as linking every overlapping pair. With one list, events of a
+  // name are linked among themselves; with two, events are only linked across the lists.
+  const linkOverlaps = (lists: Candidate[][]) => {
+    const sweep = lists
+      .flatMap((list, side) => list.filter(c => c.span).map(c => ({ c, side })))
+      .sort((a, b) => a.c.span!.start - b.c.span!.start);
+    const furthest: (Candidate | null)[] = lists.map(() => null);
+    sweep.forEach(({ c, side }) => {
+      const other = furthest[lists.length === 1 ? 0 : 1 - side];
+      if (other && other.span!.end >= c.span!.start) union(other, c);
+      if (!furthest[side] || c.span!.end > furthest[side]!.span!.end) furthest[side] = c;
+    });
+  };
+
+  // Weekly or unparsed times only match when written the same way
+  const firstByText = (list: Candidate[]) => {
+    const first = new Map<string, Candidate>();
+    list.filter(c => !c.span).forEach(c => {
+      const text = normalizeText(c.event.time);
+      if (first.has(text)) union(first.get(text)!, c);
+      else first.set(text, c);
+    });
+    return first;
+  };
+
+  byLocation.forEach(byName => {
+    const names = Array.from(byName.keys());
+    const textGroups = new Map(names.map(name => [name, firstByText(byName.get(name)!)]));
+    names.forEach(name => linkOverlaps([byName.get(name)!]));
+    // First and last day of each name's dated events, to skip names that never meet
+    const reach = new Map(names.map(name => {
+      const spans = byName.get(name)!.map(c => c.span).filter(Boolean);
+      return [name, spans.length > 0 ? spans.reduce((r, x) => ({ start: Math.min(r.start, x.start), end: Math.max(r.end, x.end) })) : null];
+    }));
+    const mayMeet = (a: string, b: string) => {
+      const x = reach.get(a);
+      const y = reach.get(b);
+      if (x && y && x.start <= y.end && y.start <= x.end) return true;
+      const textsA = textGroups.get(a)!;
+      const textsB = textGroups.get(b)!;
+      return textsA.size > 0 && textsB.size > 0 && Array.from(textsA.keys()).some(text => textsB.has(text));
+    };
+    const nameGrams = names.map(name => Array.from(new Set(bigrams(name))));
+    const index = new Map<string, number[]>();
+    names.forEach((name, i) => nameGrams[i].forEach(g => {
+      if (!index.has(g)) index.set(g, []);
+      index.get(g)!.push(i);
+    }));
+    names.forEach((a, i) => {
+      // Rarest sequences first, as they tell most about a name
+      const candidates = new Set<number>();
+      const grams = nameGrams[i].sort((g, h) => index.get(g)!.length - index.get(h)!.length);
+      for (const g of grams) {
+        // Postings are in name order; only later names are compared from here
+        const posting = index.get(g)!;
+        for (let k = posting.length - 1; k >= 0 && posting[k] > i && candidates.size < MAX_NAME_CANDIDATES; k--) candidates.add(posting[k]);
+        if (candidates.size >= MAX_NAME_CANDIDATES) break;
+      }
+      candidates.forEach(j => {
+        const b = names[j];
+        if (!mayMeet(a, b) || !areNormalizedNamesSimilar(a, b)) return;
+        linkOverlaps([byName.get(a)!, byName.get(b)!]);
+        const textsB = textGroups.get(b)!;
+        textGroups.get(a)!.forEach((c, text) => { if (textsB.has(text)) union(c, textsB.get(text)!); });
+      });
+    });
+  });
+
+  const groups = new Map<number, AppEvent[]>();
+  events.forEach((event, i) => {
+    if (!normalizeName(event.name)) return;
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(event);
+  });
+
+  // Exact when every member has the first one's name and time text
+  const sameEntry = (a: AppEvent, b: AppEvent) => normalizeName(a.name) === normalizeName(b.name) && normalizeText(a.time) === normalizeText(b.time);
+  return Array.from(groups.values()).filter(members => members.length > 1).map(members => ({
+    key: members.map(e => e.id).join('|'),
+    ids: members.map(e => e.id),
+    exact: members.every(e => sameEntry(members[0], e))
+  }));
+};
+
+// Ignore keys of every pair in a group, each as "smallerId|largerId". A group stays ignored while
+// all of its pairs are, so an event joining it brings it back and a member leaving does not.
+export const getDuplicatePairKeys = (ids: string[]): string[] =>
+  ids.flatMap((a, i) => ids.slice(i + 1).map(b => (a < b ? `${a}|${b}` : `${b}|${a}`)));
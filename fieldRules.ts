@@ -0,0 +1,109 @@
+import { AppEvent, FieldRule, FieldRuleKind, RuleViolation, CustomFieldDef, CustomFieldType } from './types.ts';
+import { getCompiledPattern, testPattern } from './regexSafety.ts';
+import { validateCustomField, CUSTOM_FIELD_TYPE_LABELS } from './constants.ts';
+
+// Built-in fields rules can attach to; custom columns are referenced as `custom:${key}`
+export const BUILTIN_RULE_FIELDS: Record<string, string> = {
+  serialNo: '序号',
+  name: '活动名称',
+  time: '时间',
+  location: '地点',
+};
+
+const CUSTOM_FIELD_PREFIX = 'custom:';
+
+export const customRuleField = (key: string) => `${CUSTOM_FIELD_PREFIX}${key}`;
+
+export const getRuleFieldLabel = (field: string) =>
+  field.startsWith(CUSTOM_FIELD_PREFIX) ? field.slice(CUSTOM_FIELD_PREFIX.length) : BUILTIN_RULE_FIELDS[field] || field;
+
+export const FIELD_RULE_KIND_LABELS: Record<FieldRuleKind, string> = {
+  'required': '必填',
+  'max-length': '最大长度',
+  'pattern': '正则匹配',
+  'allowed-values': '允许的取值',
+  'trimmed': '首尾无空格',
+  'consistent-width': '全角/半角不混用',
+  'value-type': '取值类型',
+};
+
+// Kinds that need a value; the label is shown next to the value input
+export const FIELD_RULE_VALUE_LABELS: Partial<Record<FieldRuleKind, string>> = {
+  'max-length': '最多字符数',
+  'pattern': '正则表达式',
+  'allowed-values': '允许的取值 (每行一个)',
+};
+
+export const INITIAL_FIELD_RULES: FieldRule[] = [
+  { id: 'rule-1', field: 'name', kind: 'required' },
+  { id: 'rule-2', field: 'name', kind: 'trimmed' },
+  { id: 'rule-3', field: 'name', kind: 'consistent-width' },
+  // No width rule for times: the time check reads full-width digits itself and only warns about them
+];
+
+export const getRuleFieldValue = (event: AppEvent, field: string): string => {
+  if (field.startsWith(CUSTOM_FIELD_PREFIX)) return event.customFields?.[field.slice(CUSTOM_FIELD_PREFIX.length)] || '';
+  const value = event[field as keyof AppEvent];
+  return typeof value === 'string' ? value : '';
+};
+
+export const parseAllowedValues = (value = '') => value.split(/[\n、,，]/).map(v => v.trim()).filter(Boolean);
+
+// Full-width letters/digits next to half-width ones, or brackets of both widths, e.g. "５月1日"
+const WIDTH_CLASSES: { full: RegExp, half: RegExp }[] = [
+  { full: /[０-９Ａ-Ｚａ-ｚ]/, half: /[0-9A-Za-z]/ },
+  { full: /[（）]/, half: /[()]/ },
+];
+
+// Returns NULL if the value satisfies the rule, or a message describing the violation
+export const checkFieldRule = (rule: FieldRule, value: string): string | null => {
+  if (rule.kind === 'required') return value.trim() ? null : '不能为空';
+  // The other rules only look at values that are filled in
+  if (!value) return null;
+
+  switch (rule.kind) {
+    case 'max-length': {
+      const max = Number(rule.value);
+      const length = Array.from(value.trim()).length;
+      return max > 0 && length > max ? `长度不能超过 ${max} 个字符 (当前 ${length} 个)` : null;
+    }
+    case 'pattern': {
+      const pattern = rule.value || '';
+      return getCompiledPattern(pattern) && !testPattern(pattern, value.trim()) ? `不符合规则“${rule.name || rule.value}”` : null;
+    }
+    case 'allowed-values': {
+      const allowed = parseAllowedValues(rule.value);
+      return allowed.length > 0 && !allowed.includes(value.trim()) ? `“${value.trim()}”不在允许的取值中 (${allowed.join('、')})` : null;
+    }
+    case 'trimmed':
+      return value !== value.trim() ? '首尾有多余空格' : null;
+    case 'value-type':
+      return validateCustomField(value, rule.value as CustomFieldType);
+    case 'consistent-width': {
+      const mixed = WIDTH_CLASSES.find(c => c.full.test(value) && c.half.test(value));
+      return mixed ? `全角与半角字符混用 (“${value.match(mixed.full)![0]}”与“${value.match(mixed.half)![0]}”)` : null;
+    }
+    default:
+      return null;
+  }
+};
+
+// Custom columns typed as number or phone are checked like field rules, so their errors are listed,
+// ignored and counted like any other rule violation
+export const getCustomFieldTypeRules = (defs: CustomFieldDef[]): FieldRule[] =>
+  defs.filter(def => def.type !== 'text').map(def => ({ id: `type:${def.key}`, field: customRuleField(def.key), kind: 'value-type', value: def.type }));
+
+export const validateFieldRules = (event: AppEvent, rules: FieldRule[]): RuleViolation[] =>
+  rules.flatMap(rule => {
+    const message = checkFieldRule(rule, getRuleFieldValue(event, rule.field));
+    return message ? [{ ruleId: rule.id, field: rule.field, message, severity: rule.severity || 'error' }] : [];
+  });
+
+export const describeFieldRule = (rule: FieldRule) => {
+  const kind = FIELD_RULE_KIND_LABELS[rule.kind];
+  if (rule.kind === 'max-length') return `${kind}: ${rule.value}`;
+  if (rule.kind === 'allowed-values') return `${kind}: ${parseAllowedValues(rule.value).join('、')}`;
+  if (rule.kind === 'pattern') return `${rule.name || kind}: ${rule.value}`;
+  if (rule.kind === 'value-type') return `${kind}: ${CUSTOM_FIELD_TYPE_LABELS[rule.value as CustomFieldType]}`;
+  return kind;
+};
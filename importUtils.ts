@@ -0,0 +1,636 @@
+import { AppEvent, ColumnKey, ColumnMap, CustomFieldType, ImportedValues, ImportMode, ImportRowReport, ImportSheet, MergeResult, RowSkipReason, SheetLayout } from './types.ts';
+import * as XLSX from 'xlsx';
+
+export const COLUMN_LABELS: Record<ColumnKey, string> = {
+  serial: '序号',
+  name: '活动名称',
+  time: '时间',
+  location: '地点',
+  timeEnd: '结束日期',
+  clockStart: '开始时刻',
+  clockEnd: '结束时刻',
+};
+
+const EMPTY_COLUMN_MAP: ColumnMap = { serial: -1, name: -1, time: -1, location: -1, timeEnd: -1, clockStart: -1, clockEnd: -1 };
+
+const MAPPING_STORAGE_KEY = 'event-validator:column-mappings';
+
+const normalizeHeaderCell = (c: any) => String(c ?? '').trim().replace(/\s+/g, '');
+
+// Spreadsheet-style column name: 0 -> A, 25 -> Z, 26 -> AA
+export const columnLetter = (idx: number): string => {
+  let letter = '';
+  let n = idx + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    letter = String.fromCharCode(65 + rem) + letter;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letter;
+};
+
+// Header cells may contain these words; data rows almost never consist of them alone
+const HEADER_KEYWORDS = /序号|编号|名称|活动|内容|项目|时间|日期|地点|地址|场馆|开始|结束|起止|截止|备注|联系|主办|承办|单位|人数/;
+
+// A row directly under the header that only holds labels (e.g. 开始 / 结束 under a merged 时间) continues the header
+const isHeaderContinuation = (row: any): boolean => {
+  if (!Array.isArray(row)) return false;
+  const cells = Array.from(row, normalizeHeaderCell).filter(Boolean);
+  // A single label spread over the whole row is a merged section title, not part of the header
+  if (new Set(cells).size < 2) return false;
+  const hasValue = cells.some(c => !isNaN(Number(c)) || /\d+[月.\/-]\d+/.test(c));
+  return !hasValue && cells.some(c => HEADER_KEYWORDS.test(c));
+};
+
+export const MAX_HEADER_ROWS = 3;
+
+// Number of stacked header rows starting at headerRowIndex
+export const countHeaderRows = (rawData: any[][], headerRowIndex: number): number => {
+  if (headerRowIndex < 0) return 0;
+  let count = 1;
+  while (count < MAX_HEADER_ROWS && isHeaderContinuation(rawData[headerRowIndex + count])) count++;
+  return count;
+};
+
+// Guess the header row and column positions by scoring the first rows on keywords
+export const detectLayout = (rawData: any[][]): SheetLayout => {
+  let bestHeaderRowIndex = -1;
+  let maxScore = 0;
+  for (let i = 0; i < Math.min(rawData.length, 20); i++) {
+    const row = rawData[i];
+    if (!Array.isArray(row)) continue;
+    let score = 0;
+    const rowStr = row.map(c => String(c).trim().replace(/\s+/g, ''));
+    if (rowStr.some(s => s.includes('序号'))) score += 10;
+    if (rowStr.some(s => (s.includes('名称') || s.includes('活动') || s.includes('内容')) && !s.includes('时间') && !s.includes('地点'))) score += 10;
+    if (rowStr.some(s => s.includes('时间') || s.includes('日期'))) score += 10;
+    if (rowStr.some(s => s.includes('地点') || s.includes('地址') || s.includes('场馆'))) score += 10;
+    if (score > maxScore) { maxScore = score; bestHeaderRowIndex = i; }
+  }
+
+  const headerRowCount = countHeaderRows(rawData, bestHeaderRowIndex);
+  return {
+    headerRowIndex: bestHeaderRowIndex,
+    headerRowCount,
+    colMap: detectColumnMap(rawData, bestHeaderRowIndex, headerRowCount)
+  };
+};
+
+// Combine stacked header rows per column, e.g. "时间" over "开始" -> "时间开始".
+// Vertically merged labels repeat in every row and are only kept once.
+export const combineHeaderRows = (rawData: any[][], headerRowIndex: number, headerRowCount: number): string[] => {
+  if (headerRowIndex < 0) return [];
+  const rows = rawData.slice(headerRowIndex, headerRowIndex + Math.max(1, headerRowCount));
+  const width = rows.reduce((max, row) => Array.isArray(row) ? Math.max(max, row.length) : max, 0);
+  return Array.from({ length: width }, (_, c) => {
+    const parts: string[] = [];
+    rows.forEach(row => {
+      const cell = Array.isArray(row) ? normalizeHeaderCell(row[c]) : '';
+      if (cell && parts[parts.length - 1] !== cell) parts.push(cell);
+    });
+    return parts.join('');
+  });
+};
+
+const CLOCK_VALUE = /^(上午|下午|晚上)?\d{1,2}[:：]\d{2}/;
+
+// 开始时间 / 结束时间 may hold dates or times of day; look at the values below the header to tell
+const isClockColumn = (rawData: any[][], firstDataRow: number, idx: number): boolean => {
+  const values = rawData.slice(firstDataRow)
+    .map(row => Array.isArray(row) ? row[idx] : undefined)
+    .filter(v => String(v ?? '').trim() !== '')
+    .slice(0, 20);
+  const clocks = values.filter(v => (typeof v === 'number' && v >= 0 && v < 1) || CLOCK_VALUE.test(String(v).trim()));
+  return values.length > 0 && clocks.length * 2 >= values.length;
+};
+
+// Map header cells to fields, falling back to positional guesses when keywords are missing
+export const detectColumnMap = (rawData: any[][], headerRowIndex: number, headerRowCount = 1): ColumnMap => {
+  let colMap: ColumnMap = { ...EMPTY_COLUMN_MAP };
+  if (headerRowIndex !== -1) {
+     const rowStr = combineHeaderRows(rawData, headerRowIndex, headerRowCount);
+     const firstDataRow = headerRowIndex + Math.max(1, headerRowCount);
+     let dateStart = -1;
+     let dateEnd = -1;
+     rowStr.forEach((cell: string, idx: number) => {
+        if (/序号/.test(cell)) colMap.serial = idx;
+        if (/名称|活动|内容|项目/.test(cell) && !/时间|日期|地点|地址|场馆/.test(cell)) colMap.name = idx;
+        if (/时间|日期/.test(cell)) {
+           // Separate start / end columns, e.g. 开始日期 / 结束日期 or 时间 over 开始 / 结束
+           const bound = /开始|起始/.test(cell) ? 'start' : /结束|终止/.test(cell) ? 'end' : null;
+           if (!bound) colMap.time = idx;
+           else if (isClockColumn(rawData, firstDataRow, idx)) colMap[bound === 'start' ? 'clockStart' : 'clockEnd'] = idx;
+           else if (bound === 'start') dateStart = idx;
+           else dateEnd = idx;
+        }
+        if (/地点|地址|场馆/.test(cell)) colMap.location = idx;
+     });
+     // The start date fills the time field and the end date is appended on import
+     if (dateStart !== -1) {
+        colMap.time = dateStart;
+        colMap.timeEnd = dateEnd;
+     } else if (dateEnd !== -1 && colMap.time === -1) {
+        colMap.time = dateEnd;
+     }
+     if (colMap.name !== -1) {
+        if (colMap.time === -1) colMap.time = colMap.name + 1;
+        if (colMap.location === -1) colMap.location = colMap.name + 2;
+     } else if (colMap.serial !== -1) {
+         colMap.name = colMap.serial + 1;
+         colMap.time = colMap.serial + 2;
+         colMap.location = colMap.serial + 3;
+     }
+  } else {
+     let looksLikeSerial = false;
+     if (rawData.length > 1 && Array.isArray(rawData[0])) {
+        const firstCell = rawData[0][0];
+        if (!isNaN(Number(firstCell))) looksLikeSerial = true;
+     }
+     if (looksLikeSerial) colMap = { ...EMPTY_COLUMN_MAP, serial: 0, name: 1, time: 2, location: 3 };
+     else colMap = { ...EMPTY_COLUMN_MAP, name: 0, time: 1, location: 2 };
+  }
+  return colMap;
+};
+
+// Identifies a table layout by its header texts, so a mapping can be reused for files with the same columns
+export const getHeaderSignature = (rawData: any[][], layout: Pick<SheetLayout, 'headerRowIndex' | 'headerRowCount'>): string | null => {
+  const cells = combineHeaderRows(rawData, layout.headerRowIndex, layout.headerRowCount);
+  while (cells.length > 0 && cells[cells.length - 1] === '') cells.pop();
+  return cells.length > 0 ? cells.join('|') : null;
+};
+
+const readSavedMappings = (): Record<string, ColumnMap> => {
+  try {
+    return JSON.parse(localStorage.getItem(MAPPING_STORAGE_KEY) || '{}');
+  } catch (e) {
+    console.warn('Failed to read saved column mappings', e);
+    return {};
+  }
+};
+
+export const loadSavedMapping = (signature: string | null): ColumnMap | null => {
+  if (!signature) return null;
+  const saved = readSavedMappings()[signature];
+  // Mappings saved before start/end columns were supported lack those keys
+  return saved ? { ...EMPTY_COLUMN_MAP, ...saved } : null;
+};
+
+export const saveMapping = (signature: string | null, colMap: ColumnMap) => {
+  if (!signature) return;
+  try {
+    localStorage.setItem(MAPPING_STORAGE_KEY, JSON.stringify({ ...readSavedMappings(), [signature]: colMap }));
+  } catch (e) {
+    console.warn('Failed to save column mapping', e);
+  }
+};
+
+// Copy the top-left value of every merged range into the cells it covers, so sheet_to_json
+// returns the location or month label on every row instead of only the first one
+export const fillMergedCells = (ws: XLSX.WorkSheet) => {
+  (ws['!merges'] || []).forEach(range => {
+    const origin = ws[XLSX.utils.encode_cell(range.s)];
+    if (!origin) return;
+    for (let r = range.s.r; r <= range.e.r; r++) {
+      for (let c = range.s.c; c <= range.e.c; c++) {
+        const addr = XLSX.utils.encode_cell({ r, c });
+        const covered = ws[addr];
+        if (!covered || covered.v === undefined || covered.v === '') ws[addr] = { ...origin };
+      }
+    }
+  });
+};
+
+// Write date-formatted numbers as text: dates as "M月D日" like the plans write them by hand,
+// times of day as "HH:MM". Decoding the serial directly avoids the drift of cellDates, which
+// turned midnight 5月1日 into 4月30日 23:59 in time zones east of UTC.
+const convertDateCells = (ws: XLSX.WorkSheet) => {
+  Object.keys(ws).forEach(addr => {
+    const cell = ws[addr] as XLSX.CellObject;
+    if (addr[0] === '!' || cell.t !== 'n' || typeof cell.z !== 'string' || !XLSX.SSF.is_date(cell.z)) return;
+    const code = XLSX.SSF.parse_date_code(cell.v as number);
+    if (!code) return;
+    const text = (cell.v as number) < 1
+      ? `${String(code.H).padStart(2, '0')}:${String(code.M).padStart(2, '0')}`
+      : `${code.m}月${code.d}日`;
+    ws[addr] = { t: 's', v: text };
+  });
+};
+
+// Read every worksheet of an .xlsx/.xls file. Runs in the import worker, so progress is
+// reported per sheet.
+export const readWorkbookSheets = (
+  buffer: ArrayBuffer,
+  fileName: string,
+  onProgress?: (done: number, total: number) => void
+): ImportSheet[] => {
+  const wb = XLSX.read(buffer, { type: 'array', cellNF: true });
+  return wb.SheetNames.map((wsname, i) => {
+    const ws = wb.Sheets[wsname];
+    convertDateCells(ws);
+    fillMergedCells(ws);
+    const rows = XLSX.utils.sheet_to_json(ws, { header: 1 }) as any[][];
+    onProgress?.(i + 1, wb.SheetNames.length);
+    return { name: wsname, file: fileName, rows };
+  });
+};
+
+// Widest row in the first rows of a sheet, used to list selectable columns
+export const getColumnCount = (rawData: any[][], sampleRows = 50): number =>
+  rawData.slice(0, sampleRows).reduce((max, row) => Array.isArray(row) ? Math.max(max, row.length) : max, 0);
+
+export const SKIP_REASON_LABELS: Record<RowSkipReason, string> = {
+  'empty': '空行',
+  'no-name': '活动名称为空',
+  'title': '分类/标题行',
+  'subtotal': '合计/小计行',
+  'header': '重复的表头行',
+};
+
+const cellString = (val: any) => String(val ?? '').trim();
+
+// Date-formatted cells are already text (see convertDateCells); a number left here is a date
+// serial stored with a general number format, which still reads as a day of the year
+const timeCellString = (val: any) => {
+  if (typeof val === 'number' && val > 30000) {
+    const dateObj = new Date((val - 25569) * 86400 * 1000);
+    if (!isNaN(dateObj.getTime())) return `${dateObj.getUTCMonth() + 1}月${dateObj.getUTCDate()}日`;
+  }
+  return cellString(val);
+};
+
+// Dates typed as text in start / end columns, like 2025-05-01 or 2025/5/1, become "5月1日" too
+const dateCellString = (val: any) => {
+  const text = timeCellString(val);
+  const match = text.match(/^\d{4}\s*[-\/.年]\s*(\d{1,2})\s*[-\/.月]\s*(\d{1,2})\s*日?$/);
+  return match ? `${Number(match[1])}月${Number(match[2])}日` : text;
+};
+
+// Unformatted time cells arrive as fractions of a day
+const clockCellString = (val: any) => {
+  if (typeof val === 'number' && val >= 0 && val < 1) {
+    const minutes = Math.round(val * 24 * 60);
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  }
+  return cellString(val).replace(/：/g, ':');
+};
+
+const joinRange = (start: string, end: string) => start && end && start !== end ? `${start}-${end}` : (start || end);
+
+// Build the time field from the mapped columns. Separate start / end dates become one range
+// ("5月1日-5月3日"); times of day from their own columns follow the dates ("5月1日 14:00-16:00").
+const composeTime = (row: any[], colMap: ColumnMap): string => {
+  const cell = (idx: number) => idx >= 0 && idx < row.length ? row[idx] : undefined;
+  const date = colMap.timeEnd >= 0
+    ? joinRange(dateCellString(cell(colMap.time)), dateCellString(cell(colMap.timeEnd)))
+    : timeCellString(cell(colMap.time));
+  const clock = joinRange(
+    colMap.clockStart >= 0 ? clockCellString(cell(colMap.clockStart)) : '',
+    colMap.clockEnd >= 0 ? clockCellString(cell(colMap.clockEnd)) : ''
+  );
+  if (!clock) return date;
+  return date ? `${date} ${clock}` : clock;
+};
+
+const classifyRow = (values: ImportedValues, raw: string[], headerLabels: string[], colMap: ColumnMap): RowSkipReason | undefined => {
+  const filled = raw.filter(Boolean);
+  if (filled.length === 0) return 'empty';
+  if (/^(合计|小计|总计|共计)/.test(values.serialNo.replace(/\s+/g, '')) || /^(合计|小计|总计|共计)/.test(values.name.replace(/\s+/g, ''))) return 'subtotal';
+  if (!values.name) return 'no-name';
+  if (colMap.name >= 0 && headerLabels[colMap.name] && values.name.replace(/\s+/g, '') === headerLabels[colMap.name]) return 'header';
+  // Section titles like "一、文体活动" fill one cell (or one merged range) and nothing else
+  if (new Set(filled).size === 1) return 'title';
+  return undefined;
+};
+
+// Labelled columns that are not mapped to a core field; they are kept as custom fields.
+// Repeated labels get a numeric suffix so their values do not overwrite each other.
+export const getExtraColumns = (rawData: any[][], layout: SheetLayout): { index: number, label: string }[] => {
+  const mapped = new Set<number>(Object.values(layout.colMap));
+  const seen = new Map<string, number>();
+  return combineHeaderRows(rawData, layout.headerRowIndex, layout.headerRowCount)
+    .map((label, index) => ({ index, label }))
+    .filter(col => col.label && !mapped.has(col.index))
+    .map(col => {
+      const count = (seen.get(col.label) || 0) + 1;
+      seen.set(col.label, count);
+      return count > 1 ? { ...col, label: `${col.label}(${count})` } : col;
+    });
+};
+
+// Guess how a custom column should be validated from its header and values
+export const inferCustomFieldType = (label: string, values: string[]): CustomFieldType => {
+  const filled = values.filter(Boolean);
+  if (/电话|手机|联系方式/.test(label)) return 'phone';
+  if (filled.length > 0 && filled.every(v => /^-?\d+(\.\d+)?$/.test(v))) return 'number';
+  return 'text';
+};
+
+// Read every data row of a sheet with its outcome, so skipped rows can be reviewed before importing
+export const buildRowReports = (sheet: ImportSheet, layout: SheetLayout): ImportRowReport[] => {
+  const { colMap } = layout;
+  const headerLabels = combineHeaderRows(sheet.rows, layout.headerRowIndex, layout.headerRowCount);
+  const extraColumns = getExtraColumns(sheet.rows, layout);
+  const reports: ImportRowReport[] = [];
+
+  const startRow = Math.max(0, layout.headerRowIndex + layout.headerRowCount);
+  for (let i = startRow; i < sheet.rows.length; i++) {
+    const row = Array.isArray(sheet.rows[i]) ? sheet.rows[i] : [];
+    const getVal = (idx: number) => idx >= 0 && idx < row.length ? cellString(row[idx]) : '';
+    const values: ImportedValues = {
+      serialNo: getVal(colMap.serial),
+      name: getVal(colMap.name),
+      time: composeTime(row, colMap),
+      location: getVal(colMap.location),
+    };
+    const raw = Array.from(row, cellString);
+    const extras: Record<string, string> = {};
+    extraColumns.forEach(col => { extras[col.label] = getVal(col.index); });
+    reports.push({
+      key: `${sheet.file || ''}/${sheet.name}#${i}`,
+      file: sheet.file,
+      sheet: sheet.name,
+      row: i + 1,
+      values,
+      extras,
+      raw,
+      skipReason: classifyRow(values, raw, headerLabels, colMap),
+    });
+  }
+  return reports;
+};
+
+// Where an event came from, e.g. "团委.xlsx · Sheet1 · 第 5 行"; a CSV's only sheet is named after the file
+export const formatEventSource = (source: { file?: string, sheet: string, row: number }) =>
+  [source.file && source.file !== source.sheet ? source.file : '', source.sheet, `第 ${source.row} 行`]
+    .filter(Boolean)
+    .join(' · ');
+
+// Label for a sheet in pickers and tabs; sheets of different files may share a name
+export const getSheetLabel = (sheet: ImportSheet) =>
+  sheet.file && sheet.file !== sheet.name ? `${sheet.file} / ${sheet.name}` : sheet.name;
+
+// File an event was imported from, used to filter the list and issues; pasted tables use their table name
+export const getSourceFile = (evt: AppEvent) => evt.source ? (evt.source.file || evt.source.sheet) : '';
+
+const sameCustomFields = (a: Record<string, string> = {}, b: Record<string, string> = {}) => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).every(key => (a[key] || '') === (b[key] || ''));
+};
+
+const sameImportedValues = (a?: ImportedValues, b?: ImportedValues) =>
+  !!a && !!b && a.serialNo === b.serialNo && a.name === b.name && a.time === b.time && a.location === b.location
+    && sameCustomFields(a.customFields, b.customFields);
+
+// Reconcile a freshly imported list with the events already on the page. The update modes only
+// remove events of the files being imported again: other files of a batch, and events added by
+// hand, stay where they are, and the merged rows take the place of the first event they replace.
+export const mergeImportedEvents = (existing: AppEvent[], incoming: AppEvent[], mode: ImportMode): MergeResult => {
+  if (mode === 'replace') {
+    return { events: incoming, added: incoming, updated: [], removed: existing, unchanged: [] };
+  }
+  if (mode === 'append') {
+    return { events: [...existing, ...incoming], added: incoming, updated: [], removed: [], unchanged: existing };
+  }
+
+  // Match on the values originally read from the file, so manual corrections do not break matching
+  const keyOf = (evt: AppEvent) => {
+    const values = evt.importedValues || evt;
+    return (mode === 'update-serial' ? values.serialNo : values.name).trim();
+  };
+  // Queue existing events per key so duplicate keys are matched in order, one to one
+  const candidates = new Map<string, AppEvent[]>();
+  existing.forEach(evt => {
+    const key = keyOf(evt);
+    if (!key) return;
+    candidates.set(key, [...(candidates.get(key) || []), evt]);
+  });
+
+  const result: MergeResult = { events: [], added: [], updated: [], removed: [], unchanged: [] };
+  const matchedIds = new Set<string>();
+
+  incoming.forEach(evt => {
+    const match = candidates.get(keyOf(evt))?.shift();
+    if (!match) {
+      result.events.push(evt);
+      result.added.push(evt);
+      return;
+    }
+    matchedIds.add(match.id);
+
+    if (sameImportedValues(match.importedValues, evt.importedValues)) {
+      // Source row did not change: keep the event with its manual edits and ignore decisions
+      result.events.push(match);
+      result.unchanged.push(match);
+      return;
+    }
+
+    // Keep ignore decisions only for fields the new file left untouched
+    const before = match.importedValues;
+    const keptIgnores = (match.ignoredErrors || []).filter(type => {
+      if (!before || !evt.importedValues) return false;
+      if (type === 'serial') return before.serialNo === evt.importedValues.serialNo;
+      if (type === 'time') return before.time === evt.importedValues.time;
+      // Rules may look at any column, so their ignores only survive unchanged rows
+      if (type.startsWith('rule:')) return false;
+      return before.location === evt.importedValues.location;
+    });
+    const updated = { ...evt, id: match.id, ignoredErrors: keptIgnores };
+    result.events.push(updated);
+    result.updated.push(updated);
+  });
+
+  // Pasted tables count as files under their table name; events without a source are never removed
+  const incomingFiles = new Set(incoming.map(getSourceFile).filter(Boolean));
+  const isReimported = (evt: AppEvent) => incomingFiles.has(getSourceFile(evt));
+  result.removed = existing.filter(evt => !matchedIds.has(evt.id) && isReimported(evt));
+  const kept = existing.filter(evt => !matchedIds.has(evt.id) && !isReimported(evt));
+  const firstReplaced = existing.findIndex(evt => matchedIds.has(evt.id) || isReimported(evt));
+  // Every event before the first replaced one is kept
+  const at = firstReplaced === -1 ? kept.length : firstReplaced;
+  result.events = [...kept.slice(0, at), ...result.events, ...kept.slice(at)];
+  result.unchanged.push(...kept);
+  return result;
+};
+
+export type TextEncoding = 'utf-8' | 'gb18030' | 'utf-16le' | 'utf-16be';
+
+export const TEXT_ENCODING_LABELS: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'gb18030': 'GBK / GB18030',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+};
+
+export interface EncodingGuess {
+  encoding: TextEncoding;
+  confident: boolean;
+}
+
+// Guess the encoding of an exported text table: BOM first, then UTF-16 zero-byte layout, then strict UTF-8, then GBK
+export const detectTextEncoding = (bytes: Uint8Array): EncodingGuess => {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return { encoding: 'utf-8', confident: true };
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return { encoding: 'utf-16le', confident: true };
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return { encoding: 'utf-16be', confident: true };
+
+  // ASCII text in UTF-16 leaves every other byte empty
+  const sample = bytes.subarray(0, 4096);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  sample.forEach((b, i) => {
+    if (b !== 0) return;
+    if (i % 2 === 0) evenZeros++; else oddZeros++;
+  });
+  const half = sample.length / 2;
+  if (half > 0 && oddZeros / half > 0.3 && evenZeros / half < 0.05) return { encoding: 'utf-16le', confident: true };
+  if (half > 0 && evenZeros / half > 0.3 && oddZeros / half < 0.05) return { encoding: 'utf-16be', confident: true };
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return { encoding: 'utf-8', confident: true };
+  } catch (e) {
+    // Not valid UTF-8, fall through to the Chinese legacy encodings
+  }
+
+  // GB18030 decodes almost anything, so only trust it when the result is mostly Chinese text
+  const text = new TextDecoder('gb18030').decode(bytes);
+  const nonAscii = text.match(/[^\x00-\x7F]/g) || [];
+  const cjk = text.match(/[\u3000-\u303F\u4E00-\u9FFF\uFF00-\uFFEF]/g) || [];
+  const confident = !text.includes('\uFFFD') && (nonAscii.length === 0 || cjk.length / nonAscii.length > 0.9);
+  return { encoding: 'gb18030', confident };
+};
+
+export const decodeText = (bytes: Uint8Array, encoding: TextEncoding): string =>
+  // TextDecoder strips a matching BOM itself
+  new TextDecoder(encoding).decode(bytes);
+
+// Split CSV/TSV text into rows, honouring quoted cells with embedded delimiters, quotes and line breaks
+export const parseDelimitedText = (text: string, delimiter?: string): string[][] => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const sep = delimiter || (firstLine.includes('\t') ? '\t' : ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else cell += ch;
+    } else if (ch === '"' && cell === '') {
+      inQuotes = true;
+    } else if (ch === sep) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const wordChildren = (el: Element, localName: string): Element[] =>
+  Array.from(el.children).filter(child => child.namespaceURI === WORD_NS && child.localName === localName);
+
+// A <w:tcPr> child of a table cell, e.g. gridSpan or vMerge
+const wordCellProperty = (tc: Element, localName: string): Element | undefined => {
+  const props = wordChildren(tc, 'tcPr')[0];
+  return props ? wordChildren(props, localName)[0] : undefined;
+};
+
+// Text of a table cell, one line per paragraph, skipping tables nested inside it
+const wordCellText = (tc: Element): string =>
+  wordChildren(tc, 'p')
+    .map(p => Array.from(p.getElementsByTagNameNS(WORD_NS, 't')).map(t => t.textContent || '').join(''))
+    .join('\n')
+    .trim();
+
+// Read every table of a .docx file as rows of cell texts. The file is a zip archive, which SheetJS can open.
+export const extractDocxTables = (bytes: Uint8Array): ImportSheet[] => {
+  const archive = XLSX.CFB.read(bytes, { type: 'array' });
+  const entry = XLSX.CFB.find(archive, '/word/document.xml');
+  if (!entry) throw new Error('word/document.xml not found');
+
+  const xml = new TextDecoder('utf-8').decode(new Uint8Array(entry.content));
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+
+  return Array.from(doc.getElementsByTagNameNS(WORD_NS, 'tbl')).map((tbl, i) => {
+    const rows: string[][] = [];
+    wordChildren(tbl, 'tr').forEach((tr, r) => {
+      const cells: string[] = [];
+      wordChildren(tr, 'tc').forEach(tc => {
+        // A vMerge without val="restart" continues the merged cell above: repeat its value
+        const vMerge = wordCellProperty(tc, 'vMerge');
+        const continuesAbove = !!vMerge && vMerge.getAttributeNS(WORD_NS, 'val') !== 'restart';
+        const text = continuesAbove ? (rows[r - 1]?.[cells.length] ?? '') : wordCellText(tc);
+        // Horizontally merged cells occupy several grid columns; repeat the value in each
+        const span = wordCellProperty(tc, 'gridSpan');
+        const width = Math.max(1, Number(span?.getAttributeNS(WORD_NS, 'val') || 1));
+        for (let k = 0; k < width; k++) cells.push(text);
+      });
+      rows.push(cells);
+    });
+    return { name: `表格 ${i + 1}`, rows };
+  });
+};
+
+// Visible text of an HTML table cell, keeping <br> and block breaks as line breaks
+const htmlCellText = (cell: Element): string => {
+  const clone = cell.cloneNode(true) as Element;
+  clone.querySelectorAll('br').forEach(br => br.replaceWith('\n'));
+  clone.querySelectorAll('p, div, li').forEach(block => block.append('\n'));
+  return (clone.textContent || '')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+};
+
+// Convert the tables of pasted HTML (spreadsheets, web pages, WeChat editor) into row arrays.
+// Cells covered by rowspan/colspan repeat the merged value, like merged worksheet cells.
+export const extractHtmlTables = (html: string): ImportSheet[] => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  // Nested tables are layout artefacts of rich editors; only read the innermost ones
+  const tables = Array.from(doc.querySelectorAll('table')).filter(table => !table.querySelector('table'));
+
+  return tables.map((table, i) => {
+    const rows: string[][] = [];
+    const occupied: boolean[][] = [];
+    Array.from(table.rows).forEach((tr, r) => {
+      rows[r] = rows[r] || [];
+      occupied[r] = occupied[r] || [];
+      let c = 0;
+      Array.from(tr.cells).forEach(cell => {
+        while (occupied[r][c]) c++;
+        const rowSpan = Math.max(1, cell.rowSpan || 1);
+        const colSpan = Math.max(1, cell.colSpan || 1);
+        const text = htmlCellText(cell);
+        for (let dr = 0; dr < rowSpan; dr++) {
+          rows[r + dr] = rows[r + dr] || [];
+          occupied[r + dr] = occupied[r + dr] || [];
+          for (let dc = 0; dc < colSpan; dc++) {
+            occupied[r + dr][c + dc] = true;
+            rows[r + dr][c + dc] = text;
+          }
+        }
+        c += colSpan;
+      });
+    });
+    // Fill holes left by spans so every row is a dense array
+    return { name: tables.length > 1 ? `粘贴表格 ${i + 1}` : '粘贴内容', rows: rows.map(row => Array.from(row, cell => cell ?? '')) };
+  });
+};
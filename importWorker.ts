@@ -0,0 +1,41 @@
+import { WorkerRequest, WorkerResponse, TimeValidation } from './types.ts';
+import { validateTimeFormat } from './constants.ts';
+import { readWorkbookSheets } from './importUtils.ts';
+import { getSlowPatterns, addSlowPatterns } from './regexSafety.ts';
+
+// Workbook parsing and bulk validation run here so large plans do not freeze the table.
+// Each task gets its own worker; cancelling a task terminates it.
+
+const PROGRESS_INTERVAL = 200;
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+const handleRequest = (request: WorkerRequest) => {
+  if (request.type === 'parse-workbook') {
+    post({ type: 'progress', progress: { done: 0, total: 0 } });
+    const sheets = readWorkbookSheets(request.buffer, request.fileName, (done, total) => {
+      post({ type: 'progress', progress: { done, total } });
+    });
+    post({ type: 'done', result: sheets });
+    return;
+  }
+
+  // Patterns the main thread already switched off stay off here
+  addSlowPatterns(request.slowPatterns);
+  const total = request.times.length;
+  const results: TimeValidation[] = request.times.map((time, i) => {
+    if (i % PROGRESS_INTERVAL === 0) post({ type: 'progress', progress: { done: i, total } });
+    return validateTimeFormat(time, request.timeFormats, request.plan, request.remarkKeywords);
+  });
+  post({ type: 'progress', progress: { done: total, total } });
+  post({ type: 'done', result: results, slowPatterns: getSlowPatterns() });
+};
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  try {
+    handleRequest(e.data);
+  } catch (error) {
+    console.error('Background task failed', error);
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,98 @@
+import { AppEvent, AddressLibraryItem, TimeFormatItem, TimeValidation, FieldRule, RuleViolation } from './types.ts';
+import { validateLocation } from './constants.ts';
+import { getCompiledPattern, testPattern } from './regexSafety.ts';
+import { stripTimeRemarks, extractTimeRemarks } from './timeParser.ts';
+import { validateFieldRules } from './fieldRules.ts';
+import { normalizeTimeText } from './timeNormalization.ts';
+
+// Bulk re-validation helpers. Each returns the same event objects for events whose outcome did not
+// change, so unchanged rows are not re-rendered, and checks every distinct value only once.
+
+export const getDistinctTimes = (events: AppEvent[]) => Array.from(new Set(events.map(e => e.time)));
+
+export const toTimeFields = (v: TimeValidation): Pick<AppEvent, 'isTimeValid' | 'validationMessage' | 'parsedTime' | 'timeSuggestion' | 'timeSeverity' | 'timeRemarks'> => ({
+  isTimeValid: v.isValid,
+  validationMessage: v.message,
+  parsedTime: v.parsed,
+  timeSuggestion: v.suggestion,
+  timeSeverity: v.severity,
+  timeRemarks: v.remarks
+});
+
+const hasTimeFields = (evt: AppEvent, v: TimeValidation) =>
+  evt.isTimeValid === v.isValid &&
+  evt.validationMessage === v.message &&
+  evt.timeSuggestion === v.suggestion &&
+  evt.timeSeverity === v.severity &&
+  evt.timeRemarks?.join('\n') === v.remarks?.join('\n') &&
+  JSON.stringify(evt.parsedTime) === JSON.stringify(v.parsed);
+
+// Results are keyed by time text; events whose time is not in the map (edited meanwhile, or not
+// affected) are left alone
+export const applyTimeValidations = (events: AppEvent[], results: Map<string, TimeValidation>): AppEvent[] => {
+  let changed = false;
+  const next = events.map(evt => {
+    const v = results.get(evt.time);
+    if (!v || hasTimeFields(evt, v)) return evt;
+    changed = true;
+    return { ...evt, ...toTimeFields(v) };
+  });
+  return changed ? next : events;
+};
+
+// Times whose outcome can change when the format library goes from prev to next. An added format
+// can only accept or re-flag times it matches that are not valid yet (valid times already match a
+// plain format); a removed or edited format can change any time it matched. Times are matched as
+// written and in canonical form, as validateTimeFormat falls back to the latter.
+export const getTimesAffectedByFormats = (events: AppEvent[], prev: TimeFormatItem[], next: TimeFormatItem[]): string[] => {
+  const key = (f: TimeFormatItem) => `${f.pattern}\u0000${f.severity || ''}`;
+  const prevKeys = new Set(prev.map(key));
+  const nextKeys = new Set(next.map(key));
+  const added = next.filter(f => !prevKeys.has(key(f)) && getCompiledPattern(f.pattern)).map(f => f.pattern);
+  const removed = prev.filter(f => !nextKeys.has(key(f)) && getCompiledPattern(f.pattern)).map(f => f.pattern);
+  if (added.length === 0 && removed.length === 0) return [];
+
+  const affected = new Set<string>();
+  const checked = new Set<string>();
+  events.forEach(evt => {
+    if (checked.has(evt.time)) return;
+    checked.add(evt.time);
+    const clean = stripTimeRemarks(evt.time);
+    const canonical = normalizeTimeText(clean);
+    const matches = (p: string) => testPattern(p, clean) || (canonical !== clean && testPattern(p, canonical));
+    if ((!evt.isTimeValid && added.some(matches)) || removed.some(matches)) affected.add(evt.time);
+  });
+  return Array.from(affected);
+};
+
+// Remark keywords only change the outcome of times with remarks
+export const getTimesWithRemarks = (events: AppEvent[]): string[] =>
+  getDistinctTimes(events).filter(time => extractTimeRemarks(time).length > 0);
+
+// Location checks are cheap, so they run here in one pass over distinct location texts
+export const applyLocationValidation = (events: AppEvent[], library: AddressLibraryItem[]): AppEvent[] => {
+  const results = new Map<string, ReturnType<typeof validateLocation>>();
+  let changed = false;
+  const next = events.map(evt => {
+    if (!results.has(evt.location)) results.set(evt.location, validateLocation(evt.location, library));
+    const v = results.get(evt.location);
+    if (evt.isLocationValid === v.isValid && evt.locationSeverity === v.severity) return evt;
+    changed = true;
+    return { ...evt, isLocationValid: v.isValid, locationSeverity: v.severity };
+  });
+  return changed ? next : events;
+};
+
+const sameViolations = (a: RuleViolation[] = [], b: RuleViolation[]) =>
+  a.length === b.length && a.every((v, i) => v.ruleId === b[i].ruleId && v.message === b[i].message && v.severity === b[i].severity);
+
+export const applyFieldRules = (events: AppEvent[], rules: FieldRule[]): AppEvent[] => {
+  let changed = false;
+  const next = events.map(evt => {
+    const violations = validateFieldRules(evt, rules);
+    if (sameViolations(evt.ruleViolations, violations)) return evt;
+    changed = true;
+    return { ...evt, ruleViolations: violations };
+  });
+  return changed ? next : events;
+};
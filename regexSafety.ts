@@ -0,0 +1,252 @@
+import { PatternLintIssue } from './types.ts';
+
+// User-written patterns run against every time cell, so they are checked before they are accepted
+// and matched defensively afterwards. A running JS regex cannot be interrupted, hence the lint:
+// patterns prone to catastrophic backtracking are refused rather than cut short.
+
+// Longer cells are not times; refusing to match them keeps a slow pattern's input small
+export const MAX_MATCH_INPUT_LENGTH = 200;
+// A pattern whose single match takes longer than this is switched off for the session
+const SLOW_MATCH_MS = 50;
+
+interface Quantifier {
+  min: number;
+  max: number; // Infinity when unbounded
+}
+
+type RegexNode =
+  | { type: 'atom', source: string, quant?: Quantifier }
+  | { type: 'anchor', source: '^' | '$' }
+  | { type: 'group', alternatives: RegexNode[][], sources: string[], lookaround: boolean, quant?: Quantifier };
+
+// Characters that stand for themselves when escaped, e.g. "\-" or "\."
+const ESCAPED_LITERAL_RE = /^\\[^a-zA-Z0-9]$/;
+
+// A small reader for the regex syntax people use in time formats. It only needs to find atoms,
+// groups and quantifiers; the pattern has already been compiled, so the syntax is known to be valid.
+const parsePattern = (pattern: string): RegexNode[][] => {
+  let pos = 0;
+
+  const readQuantifier = (): Quantifier | undefined => {
+    const ch = pattern[pos];
+    let quant: Quantifier | undefined;
+    if (ch === '*') quant = { min: 0, max: Infinity };
+    else if (ch === '+') quant = { min: 1, max: Infinity };
+    else if (ch === '?') quant = { min: 0, max: 1 };
+    else if (ch === '{') {
+      const m = pattern.slice(pos).match(/^\{(\d+)(,(\d*))?\}/);
+      if (!m) return undefined;
+      quant = { min: Number(m[1]), max: m[2] ? (m[3] ? Number(m[3]) : Infinity) : Number(m[1]) };
+      pos += m[0].length - 1;
+    }
+    if (!quant) return undefined;
+    pos++;
+    if (pattern[pos] === '?') pos++; // Lazy quantifiers backtrack just the same
+    return quant;
+  };
+
+  const readAlternatives = (): { alternatives: RegexNode[][], sources: string[] } => {
+    const alternatives: RegexNode[][] = [[]];
+    const sources: string[] = [];
+    let altStart = pos;
+    while (pos < pattern.length && pattern[pos] !== ')') {
+      const ch = pattern[pos];
+      const current = alternatives[alternatives.length - 1];
+      if (ch === '|') {
+        sources.push(pattern.slice(altStart, pos));
+        alternatives.push([]);
+        altStart = ++pos;
+        continue;
+      }
+      if (ch === '^' || ch === '$') {
+        current.push({ type: 'anchor', source: ch });
+        pos++;
+        continue;
+      }
+      let node: RegexNode;
+      if (ch === '(') {
+        const prefix = pattern.slice(pos + 1).match(/^\?(?::|=|!|<=|<!|<[^>]+>)/);
+        pos += 1 + (prefix ? prefix[0].length : 0);
+        const inner = readAlternatives();
+        pos++; // Closing bracket
+        node = { type: 'group', ...inner, lookaround: !!prefix && /^\?(?:=|!|<=|<!)/.test(prefix[0]) };
+      } else {
+        const start = pos;
+        if (ch === '\\') {
+          const m = pattern.slice(pos).match(/^\\(?:u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|c[a-zA-Z]|[pP]\{[^}]+\}|\d+|.)/);
+          pos += m ? m[0].length : 2;
+        } else if (ch === '[') {
+          pos++;
+          while (pos < pattern.length && pattern[pos] !== ']') pos += pattern[pos] === '\\' ? 2 : 1;
+          pos++;
+        } else {
+          pos++;
+        }
+        node = { type: 'atom', source: pattern.slice(start, pos) };
+      }
+      node.quant = readQuantifier();
+      current.push(node);
+    }
+    sources.push(pattern.slice(altStart, pos));
+    return { alternatives, sources };
+  };
+
+  return readAlternatives().alternatives;
+};
+
+const isUnbounded = (node: RegexNode) => node.type !== 'anchor' && node.quant?.max === Infinity;
+// Repeated more than once, bounded or not: "(.*a){20}" backtracks as badly as "(.*a)+"
+const isRepeated = (node: RegexNode) => node.type !== 'anchor' && !!node.quant && node.quant.max > 1;
+const isVariable = (node: RegexNode) => node.type !== 'anchor' && !!node.quant && node.quant.min !== node.quant.max;
+
+// Atoms whose repeat count may vary inside the given nodes, including nested groups
+const collectVariableAtoms = (nodes: RegexNode[], variable = false): string[] =>
+  nodes.flatMap(node => {
+    if (node.type === 'anchor') return [];
+    const varies = variable || isVariable(node);
+    if (node.type === 'atom') return varies ? [node.source] : [];
+    return node.alternatives.flatMap(alt => collectVariableAtoms(alt, varies));
+  });
+
+// Plain characters the nodes always consume, e.g. "月" in "\d+月"
+const collectRequiredLiterals = (nodes: RegexNode[]): string[] =>
+  nodes.flatMap(node => {
+    if (node.type !== 'atom' || (node.quant && node.quant.min === 0)) return [];
+    if (node.source.length === 1 && node.source !== '.') return [node.source];
+    return ESCAPED_LITERAL_RE.test(node.source) ? [node.source[1]] : [];
+  });
+
+const matchesAtom = (atom: string, ch: string) => {
+  try {
+    return new RegExp(`^(?:${atom})$`, 'u').test(ch);
+  } catch (e) {
+    return new RegExp(`^(?:${atom})$`).test(ch);
+  }
+};
+
+// A repeated group whose body has a variable length is only safe when each pass must consume a
+// separator the variable parts cannot match, as "月" in "(\d{1,2}月)+". Without one, e.g. "(\d+)+",
+// "(\w+\s?)*" or "(.*?,){11}", a near-miss makes the engine try every way of splitting the text
+// between passes.
+const isAmbiguousRepetition = (body: RegexNode[]) => {
+  const variable = collectVariableAtoms(body);
+  if (variable.length === 0) return false;
+  return !collectRequiredLiterals(body).some(ch => variable.every(atom => !matchesAtom(atom, ch)));
+};
+
+// Characters tried against two atoms to tell whether they can consume the same text
+const OVERLAP_PROBES = ['0', '5', 'a', 'Z', '_', ' ', '-', ':', ',', '、', '月', '日', '年', '周', '至'];
+
+const canOverlap = (a: string, b: string) =>
+  a === b || a === '.' || b === '.' || OVERLAP_PROBES.some(ch => matchesAtom(a, ch) && matchesAtom(b, ch));
+
+const findBacktrackingRisks = (alternatives: RegexNode[][]): PatternLintIssue[] =>
+  alternatives.flatMap(nodes => nodes.flatMap((node, i): PatternLintIssue[] => {
+    if (node.type === 'anchor') return [];
+    const issues: PatternLintIssue[] = [];
+    if (node.type === 'group') {
+      const source = node.sources.join('|');
+      if (isRepeated(node) && node.alternatives.some(isAmbiguousRepetition)) {
+        issues.push({ severity: 'error', message: `嵌套量词“(${source})”：分组本身可以重复多次，分组内的长度又不固定，遇到不匹配的长文本时会出现灾难性回溯，导致页面卡死。请去掉其中一层量词，或在分组内加入必须出现的分隔字符 (如“月”“、”)。` });
+      } else if (isRepeated(node) && node.sources.some((a, x) => node.sources.some((b, y) => x !== y && b.startsWith(a)))) {
+        issues.push({ severity: 'error', message: `分支重叠“(${source})”：可重复的分组中，一个分支是另一个分支的开头，同一段文本有多种匹配方式，可能导致灾难性回溯。请合并或改写这些分支。` });
+      }
+      issues.push(...findBacktrackingRisks(node.alternatives));
+    }
+    const next = nodes[i + 1];
+    if (node.type === 'atom' && next?.type === 'atom' && isUnbounded(node) && isUnbounded(next) && canOverlap(node.source, next.source)) {
+      issues.push({ severity: 'error', message: `相邻的“${node.source}”与“${next.source}”都可以无限重复并匹配相同的字符，长文本上匹配会明显变慢，放在可重复的分组中还会导致页面卡死。请只保留一个。` });
+    }
+    return issues;
+  }));
+
+const isAnchored = (alternatives: RegexNode[][], anchor: '^' | '$'): boolean =>
+  alternatives.every(nodes => {
+    const edge = anchor === '^' ? nodes[0] : nodes[nodes.length - 1];
+    if (!edge) return false;
+    if (edge.type === 'anchor') return edge.source === anchor;
+    return edge.type === 'group' && !edge.quant && !edge.lookaround && isAnchored(edge.alternatives, anchor);
+  });
+
+// Texts no time format should accept; a pattern matching all of them accepts anything
+const UNRELATED_SAMPLES = ['随便写的一段文字', 'abc', '12345', '？！'];
+
+const compileForLint = (pattern: string): { re: RegExp | null, issues: PatternLintIssue[] } => {
+  try {
+    return { re: new RegExp(pattern), issues: findBacktrackingRisks(parsePattern(pattern)) };
+  } catch (e) {
+    return { re: null, issues: [{ severity: 'error', message: `正则表达式格式不正确：${(e as Error).message}` }] };
+  }
+};
+
+// Problems that make a pattern unsafe to run anywhere: it does not compile, or it risks
+// catastrophic backtracking
+export const checkPatternSafety = (pattern: string): PatternLintIssue[] => compileForLint(pattern).issues;
+
+// Problems of a time format pattern, most serious first; an empty list means it is fine to add
+export const lintPattern = (pattern: string): PatternLintIssue[] => {
+  const { re, issues } = compileForLint(pattern);
+  if (!re) return issues;
+
+  const tree = parsePattern(pattern);
+  if (!isAnchored(tree, '^')) {
+    issues.push({ severity: 'warning', message: '缺少开头的“^”：只要文本中间某一段符合该格式就会通过，例如“备注5月1日”。请在开头加上“^”。' });
+  }
+  if (!isAnchored(tree, '$')) {
+    issues.push({ severity: 'warning', message: '缺少结尾的“$”：以该格式开头、后面跟着任意内容的文本也会通过，例如“5月1日随便写”。请在结尾加上“$”。' });
+  }
+  // Only patterns without backtracking risks are tried, so the samples cannot hang the check
+  if (!issues.some(i => i.severity === 'error')) {
+    if (UNRELATED_SAMPLES.every(sample => re.test(sample))) {
+      issues.push({ severity: 'error', message: `范围过宽：该规则能匹配任意文本 (如“${UNRELATED_SAMPLES[0]}”)，添加后所有时间都会通过校验。` });
+    } else if (re.test('')) {
+      issues.push({ severity: 'warning', message: '可以匹配空文本：空白的时间单元格也会通过校验。请检查是否误用了“*”或“?”。' });
+    }
+  }
+  return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+};
+
+// Compiled once per pattern string and shared by every validation; null marks a pattern that
+// does not compile or that risks catastrophic backtracking, which is never run
+const compiledPatterns = new Map<string, RegExp | null>();
+// Patterns switched off after a slow match. Each thread has its own copy: the validation worker
+// receives the main thread's and sends back what it added (see getSlowPatterns / addSlowPatterns).
+const slowPatterns = new Set<string>();
+
+export const getSlowPatterns = (): string[] => Array.from(slowPatterns);
+
+export const addSlowPatterns = (patterns: string[]) => patterns.forEach(p => slowPatterns.add(p));
+
+export const getCompiledPattern = (pattern: string): RegExp | null => {
+  if (!compiledPatterns.has(pattern)) {
+    const { re, issues } = compileForLint(pattern);
+    const error = issues.find(i => i.severity === 'error');
+    if (error) console.warn('Regex pattern disabled:', pattern, error.message);
+    compiledPatterns.set(pattern, error ? null : re);
+  }
+  return compiledPatterns.get(pattern);
+};
+
+// Why a stored pattern is not used for matching, or null when it is
+export const getPatternProblem = (pattern: string): string | null => {
+  if (slowPatterns.has(pattern)) return `匹配耗时超过 ${SLOW_MATCH_MS} 毫秒，已暂停使用`;
+  if (getCompiledPattern(pattern)) return null;
+  return checkPatternSafety(pattern).find(i => i.severity === 'error')?.message || '正则表达式无法使用';
+};
+
+// Matches with the safeguards above: unusable patterns and over-long texts never match, and a
+// pattern that turns out slow is switched off instead of slowing every following cell.
+// The timing is detect-after-the-fact: a running match cannot be interrupted, so it only notices
+// a slow pattern once a match has returned. What keeps a match from hanging is the lint refusing
+// catastrophic patterns; bulk validation runs in the worker, where a stuck run can still be cancelled.
+export const testPattern = (pattern: string, text: string): boolean => {
+  const re = getCompiledPattern(pattern);
+  if (!re || slowPatterns.has(pattern) || text.length > MAX_MATCH_INPUT_LENGTH) return false;
+  const started = performance.now();
+  const matched = re.test(text);
+  if (performance.now() - started > SLOW_MATCH_MS) {
+    console.warn('Regex pattern disabled after a slow match:', pattern);
+    slowPatterns.add(pattern);
+  }
+  return matched;
+};
@@ -0,0 +1,50 @@
+// Variant spellings of times seen in submissions, rewritten to the canonical form the formats
+// expect: "五月一日" / "５月１日" / "5月1号" -> "5月1日", "5月1日至3日" -> "5月1日-5月3日".
+// Bracketed remarks are kept exactly as written.
+
+const FULL_WIDTH_CHARS: Record<string, string> = {
+  '：': ':', '－': '-', '．': '.', '／': '/', '　': ' ',
+};
+
+const CHINESE_DIGITS: Record<string, number> = {
+  '〇': 0, '零': 0, '一': 1, '二': 2, '两': 2, '三': 3, '四': 4, '五': 5, '六': 6, '七': 7, '八': 8, '九': 9,
+};
+
+// Numerals written before 年/月/日/号. Numerals after 周/星期/礼拜 are weekdays ("每周六日" is
+// Saturday and Sunday) and are left alone.
+const CHINESE_NUMBER_RE = /(?<!(?:周|星期|礼拜)[一二三四五六日天、\s]*)([〇零一二两三四五六七八九十]+)(?=[年月日号])/g;
+
+// Range connectors other than "-"; spaces around them go too, as in "5月1日 至 5月3日"
+const RANGE_CONNECTOR_RE = /\s*(?:至|到|~|～|〜|—+|–)\s*/g;
+
+// A range whose end leaves out the month (and year) of its start, e.g. "5月1日-3日"
+const ELIDED_RANGE_END_RE = /((?:(\d{4})年)?(\d{1,2})月\d{1,2}日)\s*-\s*(\d{1,2})日/g;
+
+const REMARK_RE = /(\(.*?\)|（.*?）)/;
+
+// "十二" -> 12, "二十一" -> 21, "二〇二四" -> 2024; null for anything else, e.g. "十十"
+export const parseChineseNumber = (text: string): number | null => {
+  if (!text.includes('十')) return Number(Array.from(text).map(c => CHINESE_DIGITS[c]).join(''));
+  const [tens, ones, ...rest] = text.split('十');
+  if (rest.length > 0 || tens.length > 1 || ones.length > 1 || tens === '〇' || tens === '零') return null;
+  return (tens ? CHINESE_DIGITS[tens] : 1) * 10 + (ones ? CHINESE_DIGITS[ones] : 0);
+};
+
+const normalizeSegment = (text: string) =>
+  text
+    .replace(/[０-９]/g, c => String.fromCharCode(c.charCodeAt(0) - 0xFEE0))
+    .replace(/[：－．／　]/g, c => FULL_WIDTH_CHARS[c])
+    .replace(CHINESE_NUMBER_RE, (numeral: string) => {
+      const value = parseChineseNumber(numeral);
+      return value === null ? numeral : String(value);
+    })
+    .replace(/(\d)号/g, '$1日')
+    .replace(RANGE_CONNECTOR_RE, '-')
+    .replace(ELIDED_RANGE_END_RE, (match, start, year, month, day) => `${start}-${year ? `${year}年` : ''}${month}月${day}日`);
+
+// The canonical spelling of a time text; returns the text unchanged when there is nothing to rewrite
+export const normalizeTimeText = (text: string): string =>
+  text
+    .split(REMARK_RE)
+    .map((part, i) => (i % 2 === 1 ? part : normalizeSegment(part)))
+    .join('');
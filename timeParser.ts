@@ -0,0 +1,468 @@
+import { MonthDay, ParsedTime, PlanSettings, TenDayPeriod, ClockRange, Severity } from './types.ts';
+import { normalizeTimeText } from './timeNormalization.ts';
+
+// Turns the time texts accepted by the system formats into structured values, so sorting
+// and date checks work on real dates instead of re-reading numbers from the text.
+
+const DATE = '(?:(\\d{4})年)?(\\d{1,2})月(\\d{1,2})日';
+const DATE_RE = new RegExp(`^${DATE}$`);
+const DATE_TOKEN_RE = new RegExp(DATE, 'g');
+const RANGE_RE = new RegExp(`^${DATE}\\s*(?:-+|至)\\s*${DATE}$`);
+const MONTH_RE = /^(\d{1,2})月$/;
+const MONTH_RANGE_RE = /^(\d{1,2})月\s*(?:-+|至)\s*(\d{1,2})月$/;
+const TEN_DAY_RE = /^(\d{1,2})月([上中下])旬$/;
+// A time of day or a range of them, optionally with 上午/下午/晚上, e.g. "14:30-16:00", "下午2:30-4:00"
+const CLOCK = '(?:(上午|早上|中午|下午|晚上)\\s*)?(\\d{1,2})[:：](\\d{2})';
+const CLOCK_RANGE = `(?<!\\d)${CLOCK}(?:\\s*(?:-+|~|～|至|到)\\s*${CLOCK})?(?!\\d)`;
+const CLOCK_TOKEN_RE = new RegExp(CLOCK_RANGE, 'g');
+const TRAILING_CLOCK_RE = new RegExp(`^(.*?)\\s*(${CLOCK_RANGE})$`);
+const WEEKLY_RE = new RegExp(`^每周([一二三四五六日天、\\s]+?)\\s*(${CLOCK_RANGE})$`);
+
+const WEEKDAY_CHARS: Record<string, number> = { '日': 0, '天': 0, '一': 1, '二': 2, '三': 3, '四': 4, '五': 5, '六': 6 };
+export const WEEKDAY_NAMES = ['日', '一', '二', '三', '四', '五', '六'];
+
+const TEN_DAY_PERIODS: Record<string, TenDayPeriod> = { '上': 'early', '中': 'middle', '下': 'late' };
+export const TEN_DAY_LABELS: Record<TenDayPeriod, string> = { early: '上旬', middle: '中旬', late: '下旬' };
+
+// 周X / 星期X written after a date, in brackets ("5月1日(周三)") or inline ("5月1日周三"). A note
+// may also list or span weekdays for the dates before it: "5月1日-5月3日(周五至周日)", "5月1日、5月2日(周五、六)"
+const WEEKDAY_LIST = '(?:周|星期|礼拜)[一二三四五六日天](?:\\s*(?:至|到|-+|~|～|、|,|，)\\s*(?:周|星期|礼拜)?[一二三四五六日天])*';
+const WEEKDAY_NOTE_RE = new RegExp(`${DATE}(\\s*[（(]?\\s*)(${WEEKDAY_LIST})`, 'g');
+const INLINE_WEEKDAY_NOTE_RE = new RegExp(`(${DATE})\\s*${WEEKDAY_LIST}`, 'g');
+const NOTE_WEEKDAY_RE = /(周|星期|礼拜)?([一二三四五六日天])/g;
+
+// Remove bracketed remarks (half-width or full-width) and inline weekday notes,
+// e.g. "1月1日(备注)" -> "1月1日", "5月1日周四" -> "5月1日"
+export const stripTimeRemarks = (text: string) =>
+  text.replace(/(\(.*?\)|（.*?）)/g, '').replace(INLINE_WEEKDAY_NOTE_RE, '$1').trim();
+
+const REMARK_RE = /\((.*?)\)|（(.*?)）/g;
+// A bracket holding only a weekday ("5月1日(周三)") is a weekday note, checked against its date
+const WEEKDAY_ONLY_RE = new RegExp(`^${WEEKDAY_LIST}$`);
+
+// Bracketed remarks in the order written, without their brackets,
+// e.g. "5月1日(暂定)" -> ["暂定"], "5月1日(周五)" -> []
+export const extractTimeRemarks = (text: string): string[] =>
+  Array.from(text.matchAll(REMARK_RE), m => (m[1] ?? m[2]).trim()).filter(remark => remark && !WEEKDAY_ONLY_RE.test(remark));
+
+const toMonthDay = (year: string | undefined, month: string, day: string): MonthDay => ({
+  ...(year ? { year: Number(year) } : {}),
+  month: Number(month),
+  day: Number(day),
+});
+
+export const formatMonthDay = (date: MonthDay) => `${date.year ? `${date.year}年` : ''}${date.month}月${date.day}日`;
+
+const CLOCK_PERIOD_HOURS: Record<string, (hour: number) => number | null> = {
+  '上午': h => (h <= 12 ? h : null),
+  '早上': h => (h <= 12 ? h : null),
+  '中午': h => (h === 11 || h === 12 ? h : h === 1 || h === 2 ? h + 12 : null),
+  '下午': h => (h >= 1 && h <= 11 ? h + 12 : h >= 12 && h <= 23 ? h : null),
+  '晚上': h => (h >= 5 && h <= 11 ? h + 12 : h === 12 ? 24 : h >= 17 && h <= 23 ? h : null),
+};
+
+export const formatClock = (minutes: number) => `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+
+export const clockToMinutes = (clock: string) => {
+  const [h, m] = clock.split(/[:：]/).map(Number);
+  return h * 60 + m;
+};
+
+// Minutes since midnight of one written time, or a message when no such time exists
+const readClock = (period: string | undefined, hour: string, minute: string): number | string => {
+  const written = `${period || ''}${hour}:${minute}`;
+  if (Number(minute) > 59) return `时间“${written}”无效，分钟应为 0-59`;
+  const h = period ? CLOCK_PERIOD_HOURS[period](Number(hour)) : Number(hour);
+  if (h === null) return `时间“${written}”有误，${period}没有${Number(hour)}点`;
+  if (h > 24) return `时间“${written}”无效，小时应为 0-24`;
+  const minutes = h * 60 + Number(minute);
+  return minutes > 24 * 60 ? `时间“${written}”无效，一天最晚到 24:00` : minutes;
+};
+
+// One time or time range from the CLOCK_RANGE groups. An end without 上午/下午 takes the start's
+// when that still reads as a time ("下午2:00-4:00" ends at 16:00).
+const readClockRange = ([startPeriod, startHour, startMinute, endPeriod, endHour, endMinute]: string[]): { start: number, end?: number } | string => {
+  const start = readClock(startPeriod, startHour, startMinute);
+  if (typeof start === 'string') return start;
+  if (start === 24 * 60) return '24:00 只能作为结束时间';
+  if (endHour === undefined) return { start };
+  let end = readClock(endPeriod || startPeriod, endHour, endMinute);
+  if (typeof end === 'string' && !endPeriod && startPeriod) end = readClock(undefined, endHour, endMinute);
+  if (typeof end === 'string') return end;
+  if (end <= start) return `结束时间 ${formatClock(end)} 应晚于开始时间 ${formatClock(start)}`;
+  return { start, end };
+};
+
+const toClockRange = (range: { start: number, end?: number }): ClockRange => ({
+  start: formatClock(range.start),
+  ...(range.end !== undefined ? { end: formatClock(range.end) } : {})
+});
+
+// Check every time of day in the text, remarks included, e.g. "19:70-18:00" or "上午14:00".
+// Returns NULL if all are valid, or a message for the first that is not.
+export const checkClockTimes = (text: string): string | null => {
+  for (const m of text.matchAll(CLOCK_TOKEN_RE)) {
+    const result = readClockRange(m.slice(1));
+    if (typeof result === 'string') return result;
+  }
+  return null;
+};
+
+// First valid time range anywhere in the text, in minutes since midnight, e.g. from the remark
+// in "5月1日(14:00-16:00)"
+export const findClockRange = (text: string): { start: number, end: number } | null => {
+  for (const m of text.matchAll(CLOCK_TOKEN_RE)) {
+    const result = readClockRange(m.slice(1));
+    if (typeof result !== 'string' && result.end !== undefined) return { start: result.start, end: result.end };
+  }
+  return null;
+};
+
+const parseDates = (clean: string): ParsedTime | null => {
+  if (clean === '全年') return { kind: 'all-year' };
+
+  let m = clean.match(RANGE_RE);
+  if (m) return { kind: 'range', start: toMonthDay(m[1], m[2], m[3]), end: toMonthDay(m[4], m[5], m[6]) };
+
+  // One date, or several separated by 、 or spaces
+  const parts = clean.split(/[、\s]+/);
+  const dates = parts.map(part => part.match(DATE_RE));
+  if (dates.every(Boolean)) {
+    const values = dates.map(d => toMonthDay(d![1], d![2], d![3]));
+    return values.length === 1 ? { kind: 'date', date: values[0] } : { kind: 'dates', dates: values };
+  }
+
+  if ((m = clean.match(MONTH_RE))) return { kind: 'month', month: Number(m[1]) };
+  if ((m = clean.match(MONTH_RANGE_RE))) return { kind: 'month-range', startMonth: Number(m[1]), endMonth: Number(m[2]) };
+  if ((m = clean.match(TEN_DAY_RE))) return { kind: 'ten-day', month: Number(m[1]), period: TEN_DAY_PERIODS[m[2]] };
+  return null;
+};
+
+// Returns null for texts outside the known shapes, e.g. those accepted by a custom format
+export const parseTime = (text: string): ParsedTime | null => {
+  const clean = stripTimeRemarks(text);
+  if (!clean) return null;
+
+  let m = clean.match(WEEKLY_RE);
+  if (m) {
+    const clock = readClockRange(m.slice(3, 9));
+    if (typeof clock === 'string' || clock.end === undefined) return null;
+    const weekdays = Array.from(new Set(Array.from(m[1]).filter(c => c in WEEKDAY_CHARS).map(c => WEEKDAY_CHARS[c])));
+    return { kind: 'weekly', weekdays: weekdays.sort((a, b) => a - b), startTime: formatClock(clock.start), endTime: formatClock(clock.end) };
+  }
+
+  // Dates followed by a time of day, e.g. "5月1日 14:30-16:00"
+  if ((m = clean.match(TRAILING_CLOCK_RE)) && m[1]) {
+    const parsed = parseDates(m[1]);
+    if (parsed?.kind !== 'date' && parsed?.kind !== 'dates' && parsed?.kind !== 'range') return null;
+    const clock = readClockRange(m.slice(3, 9));
+    // An impossible time is reported by checkClockTimes; the dates are still read for their own checks
+    return typeof clock === 'string' ? parsed : { ...parsed, clock: toClockRange(clock) };
+  }
+  return parseDates(clean);
+};
+
+// Days since 1970-01-01, so spans can be compared across months and years
+const dayNumber = (year: number, month: number, day: number) => Math.floor(Date.UTC(year, month - 1, day) / 86400000);
+
+const lastDayOfMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const parseIsoDate = (iso: string): MonthDay | null => {
+  const m = iso.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return m ? { year: Number(m[1]), month: Number(m[2]), day: Number(m[3]) } : null;
+};
+
+export const getDefaultPlanSettings = (): PlanSettings => ({ year: new Date().getFullYear() });
+
+// Usable plan period, or null when none is set or its end comes before its start
+export const getPlanPeriod = (plan: PlanSettings): { start: MonthDay, end: MonthDay } | null => {
+  if (!plan.period) return null;
+  const start = parseIsoDate(plan.period.start);
+  const end = parseIsoDate(plan.period.end);
+  if (!start || !end || dayNumber(start.year!, start.month, start.day) > dayNumber(end.year!, end.month, end.day)) return null;
+  return { start, end };
+};
+
+// Year of a year-less date: the plan year, or within a period the year that puts the date inside
+// it, or else closest to it (in a 4月-6月 period, 3月 is read as just before it, not a year later)
+const resolveYear = (month: number, day: number, plan: PlanSettings): number => {
+  const period = getPlanPeriod(plan);
+  if (!period) return plan.year;
+  const start = dayNumber(period.start.year!, period.start.month, period.start.day);
+  const end = dayNumber(period.end.year!, period.end.month, period.end.day);
+  let best = period.start.year!;
+  let bestDistance = Infinity;
+  for (let year = period.start.year!; year <= period.end.year!; year++) {
+    const date = dayNumber(year, month, day);
+    const distance = date < start ? start - date : date > end ? date - end : 0;
+    if (distance < bestDistance) {
+      best = year;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+// Whole months belong to the year in which the period covers their last day
+const resolveMonthYear = (month: number, plan: PlanSettings) => resolveYear(month, 31, plan);
+
+const yearOf = (date: MonthDay, plan: PlanSettings) => date.year || resolveYear(date.month, date.day, plan);
+
+const checkMonth = (month: number): string | null =>
+  month < 1 || month > 12 ? `月份 ${month} 无效 (需1-12)` : null;
+
+const checkMonthDay = (date: MonthDay, plan: PlanSettings): string | null => {
+  const monthError = checkMonth(date.month);
+  if (monthError) return monthError;
+  const year = yearOf(date, plan);
+  const days = lastDayOfMonth(year, date.month);
+  if (date.day < 1 || date.day > days) {
+    if (date.month === 2 && date.day === 29) return `${year}年不是闰年，2月只有28天`;
+    return `${date.month}月只有${days}天，无法设置为${date.day}日`;
+  }
+  return null;
+};
+
+const isNewYearCrossover = (startMonth: number, endMonth: number) => startMonth === 12 && endMonth === 1;
+
+const CROSS_YEAR_HINT = '；跨年活动请写明年份，或设置跨年的计划周期';
+
+// Check that the dates of a parsed time exist in the plan year and ranges run forwards.
+// Year-less dates are placed by the plan period, so a period spanning New Year already orders
+// "12月28日-1月3日" correctly. Without one, only a December-to-January range ("12月28日-1月3日",
+// "12月-1月") is read as running into the next year, as in getDaySpan; the plan period check
+// flags the part outside the plan. Any other reversed range ("5月3日-4月30日") is an error.
+// Returns NULL if valid, or a string message if invalid.
+export const checkParsedTime = (parsed: ParsedTime, plan: PlanSettings = getDefaultPlanSettings()): string | null => {
+  switch (parsed.kind) {
+    case 'date':
+      return checkMonthDay(parsed.date, plan);
+    case 'dates':
+      return parsed.dates.map(d => checkMonthDay(d, plan)).find(Boolean) || null;
+    case 'range': {
+      const error = checkMonthDay(parsed.start, plan) || checkMonthDay(parsed.end, plan);
+      if (error) return error;
+      const { start, end } = parsed;
+      const v1 = dayNumber(yearOf(start, plan), start.month, start.day);
+      const v2 = dayNumber(yearOf(end, plan), end.month, end.day);
+      if (v1 <= v2 || (!end.year && isNewYearCrossover(start.month, end.month))) return null;
+      return start.year && end.year ? '结束时间不能早于开始时间' : `结束时间不能早于开始时间${CROSS_YEAR_HINT}`;
+    }
+    case 'month':
+    case 'ten-day':
+      return checkMonth(parsed.month);
+    case 'month-range': {
+      const error = checkMonth(parsed.startMonth) || checkMonth(parsed.endMonth);
+      if (error) return error;
+      if (isNewYearCrossover(parsed.startMonth, parsed.endMonth)) return null;
+      const startYear = resolveMonthYear(parsed.startMonth, plan);
+      const endYear = resolveMonthYear(parsed.endMonth, plan);
+      return startYear * 100 + parsed.startMonth > endYear * 100 + parsed.endMonth ? '结束月份不能早于开始月份；跨年活动请设置跨年的计划周期' : null;
+    }
+    default:
+      return null;
+  }
+};
+
+// Texts from custom formats are not parsed; still make sure any X月X日 in them exists
+export const checkDateTokens = (text: string, plan: PlanSettings = getDefaultPlanSettings()): string | null => {
+  for (const m of stripTimeRemarks(text).matchAll(DATE_TOKEN_RE)) {
+    const error = checkMonthDay(toMonthDay(m[1], m[2], m[3]), plan);
+    if (error) return error;
+  }
+  return null;
+};
+
+// Dates mentioned in remarks ("报名截止4月31日") are not part of the time, but must exist too
+export const checkRemarkDates = (remarks: string[], plan: PlanSettings = getDefaultPlanSettings()): string | null => {
+  for (const remark of remarks) {
+    for (const m of normalizeTimeText(remark).matchAll(DATE_TOKEN_RE)) {
+      const error = checkMonthDay(toMonthDay(m[1], m[2], m[3]), plan);
+      if (error) return `备注“${remark}”中的日期有误：${error}`;
+    }
+  }
+  return null;
+};
+
+const TEN_DAY_BOUNDS: Record<TenDayPeriod, [number, number | null]> = { early: [1, 10], middle: [11, 20], late: [21, null] };
+
+const monthSpan = (month: number, plan: PlanSettings) => {
+  const year = resolveMonthYear(month, plan);
+  return { start: dayNumber(year, month, 1), end: dayNumber(year, month, lastDayOfMonth(year, month)) };
+};
+
+// First and last day covered by a parsed time, as day numbers. Year-less dates are placed by
+// the plan settings; ranges that still end before they start run into the next year.
+// Weekly times have no span.
+export const getDaySpan = (parsed: ParsedTime, plan: PlanSettings = getDefaultPlanSettings()): { start: number, end: number } | null => {
+  const day = (date: MonthDay) => dayNumber(yearOf(date, plan), date.month, date.day);
+  switch (parsed.kind) {
+    case 'date':
+      return { start: day(parsed.date), end: day(parsed.date) };
+    case 'dates': {
+      const days = parsed.dates.map(day);
+      return { start: Math.min(...days), end: Math.max(...days) };
+    }
+    case 'range': {
+      const start = day(parsed.start);
+      let end = day(parsed.end);
+      if (end < start && !parsed.end.year) end = dayNumber(yearOf(parsed.end, plan) + 1, parsed.end.month, parsed.end.day);
+      return { start, end };
+    }
+    case 'month':
+      return monthSpan(parsed.month, plan);
+    case 'month-range': {
+      const start = monthSpan(parsed.startMonth, plan).start;
+      let end = monthSpan(parsed.endMonth, plan).end;
+      if (end < start) end = monthSpan(parsed.endMonth, { year: resolveMonthYear(parsed.endMonth, plan) + 1 }).end;
+      return { start, end };
+    }
+    case 'ten-day': {
+      const year = resolveMonthYear(parsed.month, plan);
+      const [first, last] = TEN_DAY_BOUNDS[parsed.period];
+      return { start: dayNumber(year, parsed.month, first), end: dayNumber(year, parsed.month, last ?? lastDayOfMonth(year, parsed.month)) };
+    }
+    case 'all-year': {
+      const period = getPlanPeriod(plan);
+      if (period) return { start: day(period.start), end: day(period.end) };
+      return { start: dayNumber(plan.year, 1, 1), end: dayNumber(plan.year, 12, 31) };
+    }
+    default:
+      return null;
+  }
+};
+
+// The days events must fall in: the plan period, or else the whole plan year
+export const getPlanWindow = (plan: PlanSettings): { start: number, end: number } => {
+  const period = getPlanPeriod(plan);
+  if (!period) return { start: dayNumber(plan.year, 1, 1), end: dayNumber(plan.year, 12, 31) };
+  return { start: dayNumber(period.start.year!, period.start.month, period.start.day), end: dayNumber(period.end.year!, period.end.month, period.end.day) };
+};
+
+const formatDayNumber = (day: number) => {
+  const d = new Date(day * 86400000);
+  return `${d.getUTCFullYear()}年${d.getUTCMonth() + 1}月${d.getUTCDate()}日`;
+};
+
+const describeDays = (start: number, end: number) => (start === end ? formatDayNumber(start) : `${formatDayNumber(start)} 至 ${formatDayNumber(end)}`);
+
+export const describePlanWindow = (plan: PlanSettings) => {
+  if (!getPlanPeriod(plan)) return `${plan.year}年`;
+  const window = getPlanWindow(plan);
+  return describeDays(window.start, window.end);
+};
+
+// Days of a parsed time outside the plan window, described for validationMessage. Dates fully
+// outside are errors, ranges reaching past an edge are warnings. 全年 means the window itself;
+// 每周 times only need their weekdays to occur in it. Returns null when nothing is outside.
+export const checkPlanPeriod = (parsed: ParsedTime, plan: PlanSettings = getDefaultPlanSettings()): { message: string, severity: Severity } | null => {
+  const window = getPlanWindow(plan);
+  const label = describePlanWindow(plan);
+
+  if (parsed.kind === 'all-year') return null;
+  if (parsed.kind === 'weekly') {
+    if (window.end - window.start >= 6) return null;
+    const occurring = new Set<number>();
+    for (let day = window.start; day <= window.end; day++) occurring.add(new Date(day * 86400000).getUTCDay());
+    const missing = parsed.weekdays.filter(d => !occurring.has(d));
+    if (missing.length === 0) return null;
+    return {
+      severity: missing.length === parsed.weekdays.length ? 'error' : 'warning',
+      message: `计划周期 (${label}) 内没有${missing.map(d => `周${WEEKDAY_NAMES[d]}`).join('、')}`
+    };
+  }
+
+  // Listed dates are checked one by one, so the gaps between them do not count
+  const spans = (parsed.kind === 'dates' ? parsed.dates.map(date => getDaySpan({ kind: 'date', date }, plan)) : [getDaySpan(parsed, plan)]).filter(Boolean);
+  const outside: string[] = [];
+  let isAnyInside = false;
+  spans.forEach(span => {
+    if (span.start <= window.end && span.end >= window.start) isAnyInside = true;
+    if (span.start < window.start) outside.push(describeDays(span.start, Math.min(span.end, window.start - 1)));
+    if (span.end > window.end) outside.push(describeDays(Math.max(span.start, window.end + 1), span.end));
+  });
+  if (outside.length === 0) return null;
+  return isAnyInside
+    ? { severity: 'warning', message: `部分日期超出计划周期 (${label})，超出部分: ${outside.join('、')}` }
+    : { severity: 'error', message: `日期不在计划周期 (${label}) 内: ${outside.join('、')}` };
+};
+
+const clockStartOf = (parsed: ParsedTime) => ('clock' in parsed && parsed.clock ? clockToMinutes(parsed.clock.start) : 0);
+
+// Chronological order by first day, then last day and time of day; times without a span sort last
+export const compareParsedTime = (a: ParsedTime | undefined, b: ParsedTime | undefined, plan?: PlanSettings): number => {
+  const spanA = a ? getDaySpan(a, plan) : null;
+  const spanB = b ? getDaySpan(b, plan) : null;
+  if (!spanA || !spanB) return (spanA ? 0 : 1) - (spanB ? 0 : 1);
+  return spanA.start - spanB.start || spanA.end - spanB.end || clockStartOf(a) - clockStartOf(b);
+};
+
+const describeClock = (clock?: ClockRange) => (clock ? `，${clock.start}${clock.end ? `-${clock.end}` : ''}` : '');
+
+// Human readable summary, e.g. "日期范围: 5月1日 至 5月3日"
+export const describeParsedTime = (parsed: ParsedTime): string => {
+  switch (parsed.kind) {
+    case 'date':
+      return `单日: ${formatMonthDay(parsed.date)}${describeClock(parsed.clock)}`;
+    case 'dates':
+      return `多日: ${parsed.dates.map(formatMonthDay).join('、')} (共${parsed.dates.length}天)${describeClock(parsed.clock)}`;
+    case 'range':
+      return `日期范围: ${formatMonthDay(parsed.start)} 至 ${formatMonthDay(parsed.end)}${describeClock(parsed.clock)}`;
+    case 'month':
+      return `整月: ${parsed.month}月`;
+    case 'month-range':
+      return `月份范围: ${parsed.startMonth}月 至 ${parsed.endMonth}月`;
+    case 'ten-day':
+      return `旬: ${parsed.month}月${TEN_DAY_LABELS[parsed.period]}`;
+    case 'weekly':
+      return `每周: ${parsed.weekdays.map(d => `周${WEEKDAY_NAMES[d]}`).join('、')} ${parsed.startTime}-${parsed.endTime}`;
+    case 'all-year':
+      return '全年';
+  }
+};
+
+export interface WeekdayCheck {
+  message: string;
+  suggestion: string; // The text with the weekday notes corrected
+}
+
+const shiftDate = (date: MonthDay, year: number, days: number): MonthDay => {
+  const d = new Date(Date.UTC(year, date.month - 1, date.day + days));
+  return { ...(date.year ? { year: d.getUTCFullYear() } : {}), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+};
+
+// Compare 周X / 星期X notes with the real weekday of their dates, reading year-less dates in the
+// plan year. A note with several weekdays is matched in order with as many dates before it, start to
+// start and end to end. Returns null when every note matches (or there are none).
+export const checkWeekdayNotes = (text: string, plan: PlanSettings = getDefaultPlanSettings()): WeekdayCheck | null => {
+  const problems: string[] = [];
+  let noteEnd = 0;
+  const suggestion = text.replace(WEEKDAY_NOTE_RE, (match: string, y, mo, d, gap, note: string, offset: number) => {
+    const noteStart = match.length - note.length;
+    // Dates written since the previous note, the last one being the date this note follows
+    const dates = Array.from(text.slice(noteEnd, offset + noteStart).matchAll(DATE_TOKEN_RE), m => toMonthDay(m[1], m[2], m[3]));
+    noteEnd = offset + match.length;
+    const written = Array.from(note.matchAll(NOTE_WEEKDAY_RE));
+    if (dates.length < written.length) return match;
+    const word = written[0][1];
+    const paired = dates.slice(dates.length - written.length);
+    let corrected = false;
+    const fixedNote = note.replace(NOTE_WEEKDAY_RE, (weekday: string, prefix: string | undefined, dayChar: string) => {
+      const date = paired.shift()!;
+      if (date.month < 1 || date.month > 12 || date.day < 1 || date.day > lastDayOfMonth(yearOf(date, plan), date.month)) return weekday;
+      const year = yearOf(date, plan);
+      const actual = new Date(Date.UTC(year, date.month - 1, date.day)).getUTCDay();
+      const expected = WEEKDAY_CHARS[dayChar];
+      if (actual === expected) return weekday;
+      // Closest date that does fall on the written weekday, in case the date is the mistake
+      let diff = (expected - actual + 7) % 7;
+      if (diff > 3) diff -= 7;
+      const nearest = formatMonthDay(shiftDate(date, year, diff));
+      problems.push(`${formatMonthDay(date)}是${word}${WEEKDAY_NAMES[actual]}，与标注的“${word}${dayChar}”不符（最近的${word}${dayChar}是${nearest}）`);
+      corrected = true;
+      return `${prefix ?? ''}${WEEKDAY_NAMES[actual]}`;
+    });
+    return corrected ? `${match.slice(0, noteStart)}${fixedNote}` : match;
+  });
+  return problems.length > 0 ? { message: problems.join('；'), suggestion } : null;
+};
@@ -1,4 +1,11 @@
 
+// error blocks export; warning marks something suspicious but allowed; info is only a hint
+export type Severity = 'error' | 'warning' | 'info';
+
+// Issues ignored per event. Field rule violations are ignored as `rule:${ruleId}`; venue conflicts
+// and duplicate groups involve several events and are ignored by key instead (see App).
+export type IssueType = 'serial' | 'time' | 'location' | `rule:${string}`;
+
 export interface AppEvent {
   id: string;
   serialNo: string; // Keep as string to preserve original input for validation
@@ -9,13 +16,89 @@ export interface AppEvent {
   isLocationValid: boolean;
   isTimeValid: boolean;
   validationMessage?: string;
+  // How serious a failed time / location check is; undefined means 'error'
+  timeSeverity?: Severity;
+  locationSeverity?: Severity;
+  // Structured reading of a valid time; undefined for custom formats the parser does not know
+  parsedTime?: ParsedTime;
+  // Corrected time proposed by the validator itself, e.g. with the right weekday
+  timeSuggestion?: string;
+  // Bracketed remarks of the time ("暂定", "报名截止4月20日"); they stay in the time text, so they
+  // are edited and exported where they were written
+  timeRemarks?: string[];
+  // Field rules the event breaks, filled in together with the time and location checks
+  ruleViolations?: RuleViolation[];
   // New field for ignored errors
-  ignoredErrors?: ('serial' | 'time' | 'location')[];
+  ignoredErrors?: IssueType[];
+  // Where the event was imported from (undefined for manually created events)
+  source?: EventSource;
+  // Field values exactly as read from the file, used to detect unchanged rows on re-import
+  importedValues?: ImportedValues;
+  // Values of extra columns (主办单位, 联系电话...), keyed by CustomFieldDef.key
+  customFields?: Record<string, string>;
+}
+
+export type CustomFieldType = 'text' | 'number' | 'phone';
+
+// An extra column kept from imported files
+export interface CustomFieldDef {
+  key: string; // The column header, which is also the export column name
+  type: CustomFieldType;
+}
+
+export type ImportedValues = Pick<AppEvent, 'serialNo' | 'name' | 'time' | 'location' | 'customFields'>;
+
+export interface EventSource {
+  file?: string; // Original file name; absent for pasted tables
+  sheet: string;
+  row: number; // 1-based row number in the sheet
+}
+
+// One worksheet's raw rows, as produced by sheet_to_json({ header: 1 })
+export interface ImportSheet {
+  name: string;
+  file?: string;
+  rows: any[][];
+}
+
+// A calendar date as written in a plan; year is only set when the text spells it out
+export interface MonthDay {
+  year?: number;
+  month: number;
+  day: number;
+}
+
+export type TenDayPeriod = 'early' | 'middle' | 'late'; // 上旬 / 中旬 / 下旬
+
+// Time of day written after the dates, in 24-hour "H:MM" (上午/下午 already applied); 24:00 ends a day
+export interface ClockRange {
+  start: string;
+  end?: string; // Unset for a single time such as "5月1日 14:30"
+}
+
+// Structured reading of an accepted time string, with bracketed remarks removed
+export type ParsedTime =
+  | { kind: 'date'; date: MonthDay; clock?: ClockRange }
+  | { kind: 'dates'; dates: MonthDay[]; clock?: ClockRange }
+  | { kind: 'range'; start: MonthDay; end: MonthDay; clock?: ClockRange }
+  | { kind: 'month'; month: number }
+  | { kind: 'month-range'; startMonth: number; endMonth: number }
+  | { kind: 'ten-day'; month: number; period: TenDayPeriod }
+  | { kind: 'weekly'; weekdays: number[]; startTime: string; endTime: string } // weekdays use Date.getDay() numbering
+  | { kind: 'all-year' };
+
+// Year-less dates in the plan are read in this year. A period (ISO dates, e.g. a school year
+// 2025-09-01 to 2026-08-31) takes precedence: each month falls in the year that puts it inside.
+// Events are expected within the period, or within the year when no period is set.
+export interface PlanSettings {
+  year: number;
+  period?: { start: string; end: string };
 }
 
 export interface AddressLibraryItem {
   id: string;
   name: string;
+  shared?: boolean; // Online channels or umbrella places (线上征集, 各基层工会) any number of events can use at once
 }
 
 export interface TimeFormatItem {
@@ -23,12 +106,123 @@ export interface TimeFormatItem {
   name: string;
   pattern: string; // Regex string
   isSystem?: boolean; // Optional: mark default system formats
+  severity?: Severity; // Times matching only formats with a severity are flagged with it, e.g. vague formats as 'warning'
+}
+
+// Two events booked into the same library location on the same days (and overlapping hours)
+export interface VenueConflict {
+  key: string; // `${firstId}|${secondId}`, stable while both events exist; ignores are kept by it
+  location: string;
+  firstId: string;
+  secondId: string;
+  overlap: string; // e.g. "5月2日 至 5月3日 14:00-15:00"
+}
+
+// Events that look like the same activity entered more than once
+export interface DuplicateGroup {
+  key: string; // Member ids joined with '|'
+  ids: string[]; // In list order; the first one is kept when the group is merged
+  exact: boolean; // Same name and time text, not just similar
+}
+
+// Field values chosen when merging a duplicate group into one event
+export type DuplicateMergeValues = Pick<AppEvent, 'name' | 'time' | 'location'> & { customFields: Record<string, string> };
+
+// 'value-type' rules are not added by hand; they follow the types of custom columns (see getCustomFieldTypeRules)
+export type FieldRuleKind = 'required' | 'max-length' | 'pattern' | 'allowed-values' | 'trimmed' | 'consistent-width' | 'value-type';
+
+// A declarative check on one field. field is a key of AppEvent ('name', 'time'...) or
+// `custom:${key}` for an extra column.
+export interface FieldRule {
+  id: string;
+  field: string;
+  kind: FieldRuleKind;
+  value?: string; // Max length, regex, allowed values one per line, or a CustomFieldType, depending on kind
+  name?: string; // Shown in messages of pattern rules
+  severity?: Severity; // Defaults to 'error'
 }
 
-export type ViewState = 'list' | 'library' | 'time-formats';
+export interface RuleViolation {
+  ruleId: string;
+  field: string;
+  message: string;
+  severity: Severity;
+}
+
+// A problem found in a user-written regex; errors keep the pattern from being added
+export interface PatternLintIssue {
+  severity: Severity;
+  message: string;
+}
+
+export type ViewState = 'list' | 'library' | 'time-formats' | 'field-rules';
 
 export interface SelectionState {
   id: string;
   source: 'table' | 'sidebar';
   field?: 'time' | 'location' | 'serial';
 }
+
+// time is the start date when the sheet has a separate end column (timeEnd);
+// clockStart / clockEnd hold times of day kept in their own columns
+export type ColumnKey = 'serial' | 'name' | 'time' | 'location' | 'timeEnd' | 'clockStart' | 'clockEnd';
+
+// Column index per field, -1 when the field is not present in the sheet
+export type ColumnMap = Record<ColumnKey, number>;
+
+export interface SheetLayout {
+  headerRowIndex: number; // -1 when the sheet has no header row
+  headerRowCount: number; // Stacked header rows starting at headerRowIndex, 0 without header
+  colMap: ColumnMap;
+}
+
+export type ImportMode = 'replace' | 'append' | 'update-serial' | 'update-name';
+
+export interface MergeResult {
+  events: AppEvent[];
+  added: AppEvent[];
+  updated: AppEvent[];
+  removed: AppEvent[];
+  unchanged: AppEvent[];
+}
+
+export type RowSkipReason = 'empty' | 'no-name' | 'title' | 'subtotal' | 'header';
+
+// Outcome of one source row in the import preview
+export interface ImportRowReport {
+  key: string;
+  file?: string;
+  sheet: string;
+  row: number; // 1-based row number in the sheet
+  values: ImportedValues; // serialNo is empty when the sheet has none; it is generated on import
+  extras: Record<string, string>; // Values of extra columns, keyed by header
+  raw: string[];
+  skipReason?: RowSkipReason;
+}
+
+// --- Background worker messages ---
+
+export interface TaskProgress {
+  done: number;
+  total: number; // 0 while the amount of work is not known yet
+}
+
+// Outcome of validateTimeFormat for one time text. Events sharing a text share the outcome,
+// so bulk validation works on distinct texts.
+export interface TimeValidation {
+  isValid: boolean;
+  message?: string;
+  parsed?: ParsedTime;
+  suggestion?: string;
+  severity?: Severity;
+  remarks?: string[]; // See extractTimeRemarks
+}
+
+export type WorkerRequest =
+  | { type: 'parse-workbook'; fileName: string; buffer: ArrayBuffer }
+  | { type: 'validate-times'; times: string[]; timeFormats: TimeFormatItem[]; plan: PlanSettings; remarkKeywords: string[]; slowPatterns: string[] };
+
+export type WorkerResponse =
+  | { type: 'progress'; progress: TaskProgress }
+  | { type: 'done'; result: ImportSheet[] | TimeValidation[]; slowPatterns?: string[] } // Patterns the worker switched off, see regexSafety
+  | { type: 'error'; message: string };